@@ -0,0 +1,46 @@
+import { s, type Infer } from 'tosijs-schema'
+import { systemFields } from './system-fields'
+
+export const InviteSchema = s
+  .object({
+    ...systemFields,
+    name: s.string.title('Name').describe('Who the invitation is for'),
+    roles: s
+      .array(s.string)
+      .title('Roles')
+      .describe('Permission roles granted when the invitation is accepted'),
+    roleId: s.string.optional
+      .title('Role Record')
+      .describe('An existing role record to add the invitee to'),
+    tokenHash: s.string
+      .title('Token Hash')
+      .describe('SHA-256 of the invitation token (never shown)'),
+    expires: s.string.title('Expires').describe('ISO date the link expires'),
+    invitedBy: s.string
+      .title('Invited By')
+      .describe('Firebase UID of the admin who sent the invitation'),
+    acceptedBy: s.string.optional
+      .title('Accepted By')
+      .describe('Firebase UID of the user who accepted the invitation'),
+    accepted: s.string.optional
+      .title('Accepted')
+      .describe('ISO date the invitation was accepted'),
+    revoked: s.boolean.optional
+      .title('Revoked')
+      .describe('Revoked invitations can no longer be accepted'),
+  })
+  .title('Invite')
+  .describe('A single-use link that assigns roles to whoever accepts it')
+
+export type Invite = Infer<typeof InviteSchema>
+
+export type InviteStatus = 'open' | 'accepted' | 'revoked' | 'expired'
+
+export const inviteStatus = (invite: Invite, now = new Date()): InviteStatus =>
+  invite.acceptedBy
+    ? 'accepted'
+    : invite.revoked
+    ? 'revoked'
+    : new Date(invite.expires) <= now
+    ? 'expired'
+    : 'open'
@@ -0,0 +1,43 @@
+import { s, type Infer } from 'tosijs-schema'
+import { systemFields } from './system-fields'
+
+export const REDIRECT_STATUSES = [301, 302, 307, 410] as const
+
+export const RedirectSchema = s
+  .object({
+    ...systemFields,
+    source: s.string
+      .title('Source')
+      .describe(
+        'The path to redirect (e.g. /old/page), path prefix, or regular expression'
+      ),
+    match: s
+      .enum(['exact', 'prefix', 'regex'])
+      .title('Match')
+      .describe('How the source is compared with the requested path'),
+    target: s.string.optional
+      .title('Target')
+      .describe(
+        'Where to send the request; $1, $2, etc. are replaced by the regex groups (or, for prefixes, the rest of the path)'
+      ),
+    status: s
+      .enum([...REDIRECT_STATUSES])
+      .title('Status')
+      .describe('301 (moved), 302 or 307 (temporary), or 410 (gone)'),
+    expires: s.string.optional
+      .title('Expires')
+      .describe('ISO date after which the rule is ignored'),
+    note: s.string.optional
+      .title('Note')
+      .describe('Why the rule exists (e.g. which migration it is for)'),
+    hits: s.number.optional
+      .title('Hits')
+      .describe('How many requests the rule has redirected (system-managed)'),
+    lastHit: s.string.optional
+      .title('Last Hit')
+      .describe('ISO date the rule last redirected a request (system-managed)'),
+  })
+  .title('Redirect')
+  .describe('A redirect (or 410 Gone) for pages and stored files that moved')
+
+export type Redirect = Infer<typeof RedirectSchema>
@@ -0,0 +1,307 @@
+/**
+# /access endpoint
+
+Developer tools for access control (see `collections/access.ts`), and API keys.
+
+## /access/explain
+
+Explains what a user may do with a collection or document, and why, without
+changing anything.
+
+### parameters
+- `p` (path) is a collection or document path (including `field=value` lookups)
+- `method` is `GET` (default), `POST`, `PUT`, `PATCH`, `DELETE`, or `LIST`
+- `as` is the id of a `role` record to explain access for, or `anonymous`;
+  without it, access is explained for the caller
+
+### response
+
+```
+{
+  outcome: 'hidden: unpublished',
+  as: { roleId, name, roles },
+  collection: 'post',
+  configured: true,
+  options: ['schema', 'unique', 'versioned', ...],
+  accessType: 'list',
+  heldRoles: ['author', 'public'],
+  grants: [{ role: 'public', held: true, kind: 'filter' }, ...],
+  grantedBy: 'author',
+  kind: 'ALL', // or 'fields' (with `fields`) or 'filter'
+  document: {
+    path: 'post/abc',
+    exists: true,
+    trashed: false,
+    ownership: { applies: true, owner: false, collaborator: true },
+    filtered: { ... }, // the record as the grant passes it through
+  },
+}
+```
+
+Only developers (and owners) can use it.
+
+## /access/api-key
+
+`POST` creates an API key (see `api-key.ts`) for server-to-server access.
+Only owners can use it.
+
+### body
+- `name` describes what the key is for
+- `roles` are the roles it has (only roles the owner holds)
+- `collections` and `methods` (optional) limit it to those collection paths
+  and methods (`GET`, `POST`, `PUT`, `PATCH`, `DELETE`, `LIST`)
+- `expires` (optional) is an ISO date after which it stops working
+
+### response
+
+```
+{
+  key: 'tsk_…', // send as `Authorization: ApiKey tsk_…`; it isn't stored
+  apiKey: { _id, _path, name, roles, collections, methods, expires, ... },
+}
+```
+
+The key is only ever returned here. Owners list, change, and delete keys in the
+`api-key` collection through `/doc` and `/docs`.
+*/
+
+import { onRequest } from 'firebase-functions/v2/https'
+import * as admin from 'firebase-admin'
+import * as functions from 'firebase-functions'
+import compression from 'compression'
+import { Response } from 'express'
+
+import {
+  optionsResponse,
+  getUserRoles,
+  logAudit,
+  timestamp,
+  AuthenticatedRequest,
+} from './utilities'
+import {
+  explainAccess,
+  getMethodAccess,
+  isCollaborator,
+  isRecordOwner,
+  ownershipApplies,
+  REST_METHOD,
+  ALL,
+} from './collections/access'
+import { COLLECTIONS } from './collections'
+import {
+  anonymousUser,
+  hasRole,
+  mayGrant,
+  ROLES,
+  UserRoles,
+} from './collections/roles'
+import { getRef, isDocRef } from './doc'
+import { ApiKey, generateApiKey, hashApiKey } from './api-key'
+
+const compressResponse = compression()
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'LIST']
+
+type Data = Record<string, unknown>
+
+// The roles of a role record, as getUserRoles would resolve them for one of
+// its users
+const rolesFor = async (roleId: string): Promise<UserRoles | undefined> => {
+  if (roleId === 'anonymous') {
+    return anonymousUser
+  }
+  const role = await admin.firestore().collection('role').doc(roleId).get()
+  const data = role.data() as UserRoles | undefined
+  return data
+    ? { ...data, _id: roleId, uid: data.userIds?.[0] || undefined }
+    : undefined
+}
+
+const explain = async (
+  path: string,
+  method: REST_METHOD,
+  userRoles: UserRoles
+): Promise<Data> => {
+  const explanation = explainAccess(COLLECTIONS, path, method, userRoles)
+  const report: Data = {
+    as: {
+      roleId: userRoles._id || null,
+      name: userRoles.name,
+      roles: userRoles.roles,
+    },
+    ...explanation,
+  }
+  if (!explanation.configured) {
+    return { outcome: 'not found: no collection config', ...report }
+  }
+  const access = getMethodAccess(
+    COLLECTIONS,
+    explanation.collection,
+    method,
+    userRoles
+  )
+  if (!access) {
+    return {
+      outcome: `forbidden: no role held has ${explanation.accessType} access`,
+      ...report,
+    }
+  }
+
+  const isCollection = path.split('/').length % 2 !== 0
+  const ref = await getRef(path, isCollection)
+  if (ref instanceof Error) {
+    return { outcome: `not found: ${ref.message}`, ...report }
+  }
+  if (!isDocRef(ref)) {
+    return { outcome: 'allowed', ...report }
+  }
+
+  const doc = await ref.get()
+  const data = doc.data()
+  const trashed = data?._deleted === true
+  const config = COLLECTIONS[explanation.collection]
+  const document: Data = { path: ref.path, exists: doc.exists, trashed }
+  report.document = document
+  if (!data) {
+    return {
+      outcome: method === 'POST' ? 'allowed' : 'not found',
+      ...report,
+    }
+  }
+  if (config.ownerField) {
+    document.ownership = {
+      applies: ownershipApplies(config, userRoles),
+      owner: isRecordOwner(config, data, userRoles.uid),
+      collaborator: isCollaborator(config, data, userRoles.uid),
+    }
+  }
+
+  const filtered =
+    access === ALL
+      ? { ...data, _path: ref.path }
+      : await access({ ...data, _path: ref.path }, userRoles)
+  document.filtered =
+    filtered instanceof Error ? { error: filtered.message } : filtered
+
+  let outcome = 'allowed'
+  if (method === 'POST') {
+    outcome = `conflict: ${ref.path} already exists`
+  } else if (trashed) {
+    outcome = 'not found: in the trash'
+  } else if (method === 'DELETE' && access !== ALL) {
+    outcome = 'forbidden: DELETE needs ALL write access'
+  } else if (
+    method !== 'GET' &&
+    method !== 'LIST' &&
+    ownershipApplies(config, userRoles) &&
+    !isCollaborator(config, data, userRoles.uid)
+  ) {
+    outcome = 'forbidden: belongs to another user'
+  } else if (!filtered || filtered instanceof Error) {
+    outcome = `hidden: ${filtered?.message || 'filtered out'}`
+  }
+  return { outcome, ...report }
+}
+
+const createApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  userRoles: UserRoles
+) => {
+  if (!hasRole(userRoles, ROLES.owner)) {
+    res.status(403).send('forbidden')
+    return
+  }
+  // otherwise a key could mint one without its scopes
+  if (userRoles.apiKey) {
+    res.status(403).send('API keys may not create API keys')
+    return
+  }
+  const { name, roles, collections, methods, expires } = req.body || {}
+  if (Array.isArray(roles) && !mayGrant(userRoles, roles)) {
+    res.status(403).send('an API key may only have roles you hold')
+    return
+  }
+
+  const key = generateApiKey()
+  const now = timestamp()
+  const record = await COLLECTIONS['api-key'].validate?.(
+    {
+      name,
+      keyHash: hashApiKey(key),
+      roles,
+      ...(collections ? { collections } : {}),
+      ...(methods ? { methods } : {}),
+      ...(expires ? { expires } : {}),
+      createdBy: userRoles.uid,
+      _created: now,
+      _modified: now,
+    } as ApiKey,
+    userRoles,
+    undefined
+  )
+  if (record instanceof Error) {
+    res.status(400).send(record.message)
+    return
+  }
+  const ref = await admin.firestore().collection('api-key').add(record)
+  await logAudit(userRoles, { method: 'POST', path: ref.path, after: record })
+
+  const apiKey = { ...record, _id: ref.id, _path: ref.path }
+  delete apiKey.keyHash
+  res.status(201).json({ key, apiKey })
+}
+
+export const access = onRequest({}, async (req, res) => {
+  if (optionsResponse(req, res, ['GET', 'POST'])) {
+    return
+  }
+  const userRoles = await getUserRoles(req)
+  if (!hasRole(userRoles, ROLES.developer)) {
+    res.status(403).send('forbidden')
+    return
+  }
+
+  const action = req.path.split('/').filter(Boolean)[0] || ''
+  if (action === 'api-key' && req.method === 'POST') {
+    try {
+      await createApiKey(req, res, userRoles)
+    } catch (e) {
+      functions.logger.error('Error creating API key:', e)
+      res.status(500).send('internal error')
+    }
+    return
+  }
+  if (action !== 'explain' || req.method !== 'GET') {
+    res.status(400).send('unknown action; try /access/explain')
+    return
+  }
+
+  const path = req.query.p as string | undefined
+  const method = ((req.query.method as string) || 'GET').toUpperCase()
+  if (!path) {
+    res.status(400).send('missing path')
+    return
+  }
+  if (!METHODS.includes(method)) {
+    res.status(400).send(`method must be one of ${METHODS.join(', ')}`)
+    return
+  }
+
+  const as = req.query.as as string | undefined
+  const subject = as ? await rolesFor(as) : userRoles
+  if (!subject) {
+    res.status(404).send(`no role ${as}`)
+    return
+  }
+
+  try {
+    const report = await explain(path, method as REST_METHOD, subject)
+    compressResponse(req, res, () => {
+      res.json(report)
+    })
+  } catch (e) {
+    functions.logger.error(`Error explaining access to ${path}:`, e)
+    res.status(500).send('internal error')
+  }
+})
@@ -0,0 +1,64 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import {
+  apiKeyFrom,
+  apiKeyRoles,
+  apiKeyUsable,
+  generateApiKey,
+  hashApiKey,
+  ApiKey,
+} from './api-key'
+
+const apiKey: ApiKey = {
+  name: 'build script',
+  keyHash: 'hash',
+  roles: ['editor'],
+  collections: ['post'],
+  methods: ['get', 'list'],
+  expires: '2024-02-01T00:00:00.000Z',
+}
+
+test('keys are random and hashed', () => {
+  const key = generateApiKey()
+  expect(key).toMatch(/^tsk_[\w-]{43}$/)
+  expect(generateApiKey()).not.toBe(key)
+  expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/)
+  expect(hashApiKey(key)).toBe(hashApiKey(key))
+})
+
+test('keys are read from the Authorization header', () => {
+  expect(apiKeyFrom('ApiKey tsk_abc')).toBe('tsk_abc')
+  expect(apiKeyFrom('  ApiKey   tsk_abc ')).toBe('tsk_abc')
+  expect(apiKeyFrom('Bearer token')).toBeUndefined()
+  expect(apiKeyFrom('ApiKey')).toBeUndefined()
+  expect(apiKeyFrom(undefined)).toBeUndefined()
+})
+
+test('revoked and expired keys are unusable', () => {
+  const now = new Date('2024-01-15T00:00:00.000Z')
+  expect(apiKeyUsable(apiKey, now)).toBe(true)
+  expect(apiKeyUsable({ ...apiKey, revoked: true }, now)).toBe(false)
+  expect(apiKeyUsable(apiKey, new Date('2024-02-01T00:00:00.000Z'))).toBe(false)
+  expect(apiKeyUsable({ ...apiKey, expires: undefined }, now)).toBe(true)
+})
+
+test('keys map to scoped roles', () => {
+  expect(apiKeyRoles('key-1', apiKey)).toEqual({
+    _id: 'key-1',
+    _collection: 'api-key',
+    name: 'build script',
+    contacts: [],
+    roles: ['editor'],
+    userIds: [],
+    uid: 'api-key:key-1',
+    apiKey: {
+      collections: ['post'],
+      methods: ['GET', 'LIST'],
+      expires: '2024-02-01T00:00:00.000Z',
+    },
+  })
+  expect(
+    apiKeyRoles('key-2', { name: 'all', keyHash: 'hash', roles: [] }).apiKey
+  ).toEqual({})
+})
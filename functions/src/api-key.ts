@@ -0,0 +1,75 @@
+/**
+ * # API keys
+ *
+ * Build scripts and integrations that can't sign in with Google send
+ * `Authorization: ApiKey <key>` instead of a Firebase ID token. Keys are
+ * records in the `api-key` collection (see `collections/api-key.ts`), which
+ * owners manage; a key is shown once, when `/access/api-key` creates it, and
+ * only its hash is stored.
+ *
+ * `getUserRoles` maps a key to the `UserRoles` built here: the key's roles,
+ * limited by its scopes (the collections and methods it may use, and when it
+ * expires; see `withinScope` in `collections/access.ts`). Its uid is
+ * `api-key:<id>`, so audit-log records and ownership name the key.
+ */
+
+import crypto from 'crypto'
+import { ApiKeyScopes, UserRoles } from './collections/roles'
+
+export const API_KEY_SCHEME = 'ApiKey'
+
+// Keys start with this, so they're recognizable (e.g. by secret scanners)
+const KEY_PREFIX = 'tsk_'
+
+export interface ApiKey {
+  name: string
+  keyHash: string // SHA-256 of the key
+  roles: string[]
+  collections?: string[]
+  methods?: string[]
+  expires?: string
+  revoked?: boolean
+  createdBy?: string // uid of the owner who created it
+  lastUsed?: string
+  _created?: string
+  _modified?: string
+}
+
+export const generateApiKey = (): string =>
+  KEY_PREFIX + crypto.randomBytes(32).toString('base64url')
+
+export const hashApiKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex')
+
+// The key in an `Authorization: ApiKey <key>` header
+export const apiKeyFrom = (authorization?: string): string | undefined => {
+  const [scheme, key] = (authorization || '').trim().split(/\s+/, 2)
+  return scheme === API_KEY_SCHEME && key ? key : undefined
+}
+
+// Whether a key can be used at all
+export const apiKeyUsable = (apiKey: ApiKey, now = new Date()): boolean =>
+  !apiKey.revoked && (!apiKey.expires || new Date(apiKey.expires) > now)
+
+export const apiKeyRoles = (id: string, apiKey: ApiKey): UserRoles => {
+  const scopes: ApiKeyScopes = {}
+  if (apiKey.collections?.length) {
+    scopes.collections = apiKey.collections
+  }
+  if (apiKey.methods?.length) {
+    scopes.methods = apiKey.methods.map((method) => method.toUpperCase())
+  }
+  if (apiKey.expires) {
+    scopes.expires = apiKey.expires
+  }
+  return {
+    _id: id,
+    _collection: 'api-key',
+    name: apiKey.name,
+    contacts: [],
+    roles: apiKey.roles as UserRoles['roles'],
+    userIds: [],
+    uid: `api-key:${id}`,
+    apiKey: scopes,
+  }
+}
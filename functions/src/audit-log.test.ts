@@ -0,0 +1,98 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import { auditEntry, changedFields, recordHash } from './audit-log'
+import { anonymousUser, UserRoles } from './collections/roles'
+
+const editor: UserRoles = {
+  _id: 'jane-role',
+  name: 'Jane',
+  contacts: [],
+  roles: ['editor'],
+  userIds: ['jane-uid'],
+  uid: 'jane-uid',
+}
+
+test('hashes ignore key order', () => {
+  expect(recordHash({ a: 1, b: { c: 2, d: [3] } })).toBe(
+    recordHash({ b: { d: [3], c: 2 }, a: 1 })
+  )
+  expect(recordHash({ a: 1 })).not.toBe(recordHash({ a: 2 }))
+  expect(recordHash(undefined)).toBeNull()
+})
+
+test('changed fields', () => {
+  expect(
+    changedFields(
+      { title: 'a', tags: ['x'], body: 'same', _modified: '1' },
+      {
+        title: 'b',
+        tags: ['x', 'y'],
+        body: 'same',
+        summary: '',
+        _modified: '2',
+      }
+    )
+  ).toEqual(['summary', 'tags', 'title'])
+  expect(changedFields(undefined, { title: 'a', _created: '1' })).toEqual([
+    'title',
+  ])
+})
+
+test('entries describe the actor and the change', () => {
+  const entry = auditEntry(editor, {
+    method: 'PATCH',
+    path: 'post/abc',
+    before: { title: 'a' },
+    after: { title: 'b' },
+  })
+  expect(entry).toMatchObject({
+    uid: 'jane-uid',
+    roleId: 'jane-role',
+    roles: ['editor'],
+    method: 'PATCH',
+    path: 'post/abc',
+    collection: 'post',
+    fields: ['title'],
+    before: recordHash({ title: 'a' }),
+    after: recordHash({ title: 'b' }),
+    status: 200,
+  })
+  expect(entry.reason).toBeUndefined()
+})
+
+test('refused requests are recorded', () => {
+  expect(
+    auditEntry(anonymousUser, {
+      method: 'DELETE',
+      path: 'post/abc/comment/def',
+      status: 403,
+      reason: 'forbidden',
+    })
+  ).toMatchObject({
+    uid: null,
+    roleId: null,
+    collection: 'post/comment',
+    fields: [],
+    before: null,
+    after: null,
+    status: 403,
+    reason: 'forbidden',
+  })
+})
+
+test('impersonated requests say who they were viewing as', () => {
+  const entry = auditEntry(
+    { ...editor, roles: ['author'], viewingAs: 'author' },
+    { method: 'GET', path: 'post/abc', reason: 'view as author' }
+  )
+  expect(entry).toMatchObject({
+    uid: 'jane-uid',
+    roles: ['author'],
+    viewingAs: 'author',
+    reason: 'view as author',
+  })
+  expect(
+    auditEntry(editor, { method: 'GET', path: 'post' }).viewingAs
+  ).toBeUndefined()
+})
@@ -0,0 +1,95 @@
+/**
+ * # audit log
+ *
+ * Builds the `audit-log` records written (by `logAudit` in `utilities.ts`) for
+ * every change made through `/doc`, `/batch`, `/state`, `/trash`, and
+ * `/versions`, and for every request they refuse with a 403.
+ *
+ * Records say who did what to which document and which fields changed. They
+ * hold hashes of the record before and after rather than the records
+ * themselves, so the log doesn't leak what it describes, but a hash can still
+ * be matched against a version (or a backup) to see exactly what changed.
+ */
+
+import crypto from 'crypto'
+import { UserRoles } from './collections/roles'
+import { collectionPath } from './collections/access'
+
+type Data = Record<string, unknown>
+
+// Fields every write changes, so they're not worth listing
+const IGNORED_FIELDS = ['_created', '_modified', '_path']
+
+export interface AuditEntry {
+  uid: string | null
+  roleId: string | null // the role record the user's roles came from
+  roles: string[]
+  method: string
+  path: string
+  collection: string
+  fields: string[] // the fields that changed
+  before: string | null // hash of the record before the change
+  after: string | null // hash of the record after it
+  status: number
+  reason?: string // why a request was refused
+  viewingAs?: string // the X-View-As the actor was previewing the site with
+  _created: string
+}
+
+// JSON with sorted keys, so equal records always hash the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Data
+    return `{${Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+export const recordHash = (data?: Data): string | null =>
+  data
+    ? crypto.createHash('sha256').update(stableStringify(data)).digest('hex')
+    : null
+
+export const changedFields = (before: Data = {}, after: Data = {}): string[] =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(
+      (field) =>
+        !IGNORED_FIELDS.includes(field) &&
+        stableStringify(before[field]) !== stableStringify(after[field])
+    )
+    .sort()
+
+export interface AuditEvent {
+  method: string
+  path: string
+  before?: Data
+  after?: Data
+  status?: number
+  reason?: string
+}
+
+export const auditEntry = (
+  userRoles: UserRoles,
+  { method, path, before, after, status = 200, reason }: AuditEvent
+): AuditEntry => ({
+  uid: userRoles.uid || null,
+  roleId: userRoles._id || null,
+  roles: [...userRoles.roles],
+  method,
+  path,
+  collection: collectionPath(path),
+  fields: changedFields(before, after),
+  before: recordHash(before),
+  after: recordHash(after),
+  status,
+  ...(reason ? { reason } : {}),
+  ...(userRoles.viewingAs ? { viewingAs: userRoles.viewingAs } : {}),
+  _created: new Date().toJSON(),
+})
@@ -0,0 +1,191 @@
+/**
+ * Integration tests for /batch that require Firebase emulators.
+ *
+ * Run with: bun test src/batch.integration.test.ts
+ *
+ * Prerequisites (as for collections/access.integration.test.ts):
+ * - Firebase emulators must be running: bun start-emulated
+ * - Emulators should be seeded: bun seed
+ *
+ * These tests verify that a batch is applied all-or-nothing.
+ */
+
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect, describe, beforeAll } from 'bun:test'
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+
+let PROJECT_ID = 'demo-project'
+try {
+  const firebaserc = JSON.parse(
+    readFileSync(join(__dirname, '../../.firebaserc'), 'utf-8')
+  )
+  PROJECT_ID = firebaserc.projects?.default || PROJECT_ID
+} catch {
+  // Use default
+}
+
+const FUNCTIONS_URL = `http://127.0.0.1:5001/${PROJECT_ID}/us-central1`
+const AUTH_HOST = 'http://127.0.0.1:9099'
+
+async function checkEmulatorFunctionsRunning(): Promise<boolean> {
+  try {
+    await fetch(`${FUNCTIONS_URL}/hello`, {
+      method: 'GET',
+      signal: AbortSignal.timeout(2000),
+    })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Signs in as one of the seeded Google users (see initial_state/auth)
+async function idTokenFor(uid: string, email: string): Promise<string> {
+  const postBody = `id_token=${encodeURIComponent(
+    JSON.stringify({ sub: uid, email, email_verified: true })
+  )}&providerId=google.com`
+  const response = await fetch(
+    `${AUTH_HOST}/identitytoolkit.googleapis.com/v1/accounts:signInWithIdp?key=fake`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        postBody,
+        requestUri: 'http://localhost',
+        returnSecureToken: true,
+      }),
+    }
+  )
+  const { idToken } = await response.json()
+  return idToken
+}
+
+const postBatch = (ops: unknown[], idToken?: string) =>
+  fetch(`${FUNCTIONS_URL}/batch`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify({ ops }),
+  })
+
+const exists = async (p: string): Promise<boolean> =>
+  (await fetch(`${FUNCTIONS_URL}/doc?p=${p}`)).status === 200
+
+const newPost = (label: string) => {
+  const id = `batch-${label}-${Date.now()}`
+  return {
+    method: 'POST',
+    p: `post/${id}`,
+    data: { title: `Batch test ${id}`, content: 'Hello' },
+  }
+}
+
+describe('/batch integration tests', () => {
+  let emulatorsRunning = false
+
+  beforeAll(async () => {
+    emulatorsRunning = await checkEmulatorFunctionsRunning()
+    if (!emulatorsRunning) {
+      console.warn('\n⚠️  Firebase function emulators are not running.')
+      console.warn('   Start emulators with: bun start-emulated')
+      console.warn('   Then seed data with: bun seed\n')
+    }
+  })
+
+  test('refuses batches of more than MAX_OPS ops', async () => {
+    if (!emulatorsRunning) {
+      console.log('   [SKIPPED] Emulators not running')
+      expect(true).toBe(true)
+      return
+    }
+
+    const ops = Array.from({ length: 101 }, (_, index) => ({
+      method: 'DELETE',
+      p: `post/batch-limit-${index}`,
+    }))
+    const response = await postBatch(ops)
+
+    expect(response.status).toBe(400)
+    expect(await response.text()).toBe('at most 100 ops may be batched')
+  })
+
+  test('refuses malformed ops with their index', async () => {
+    if (!emulatorsRunning) {
+      console.log('   [SKIPPED] Emulators not running')
+      expect(true).toBe(true)
+      return
+    }
+
+    const response = await postBatch([newPost('malformed'), null])
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({
+      error: 'rolled back',
+      op: 1,
+    })
+  })
+
+  test('refuses the whole batch when one op is denied', async () => {
+    if (!emulatorsRunning) {
+      console.log('   [SKIPPED] Emulators not running')
+      expect(true).toBe(true)
+      return
+    }
+
+    const allowed = newPost('denied')
+    const response = await postBatch(
+      [
+        allowed,
+        {
+          method: 'PATCH',
+          p: 'role/writer-role',
+          data: { roles: ['admin'] },
+        },
+      ],
+      await idTokenFor('writer-uid', 'writer@gmail.com')
+    )
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({
+      error: 'rolled back',
+      op: 1,
+      p: 'role/writer-role',
+    })
+    expect(await exists(allowed.p)).toBe(false)
+  })
+
+  test('rolls back every op when one fails in the transaction', async () => {
+    if (!emulatorsRunning) {
+      console.log('   [SKIPPED] Emulators not running')
+      expect(true).toBe(true)
+      return
+    }
+
+    const created = newPost('rollback')
+    const response = await postBatch(
+      [
+        created,
+        {
+          method: 'PATCH',
+          p: 'post/welcome-post',
+          data: { summary: 'changed' },
+          ifMatch: '"2000-01-01T00:00:00.000Z"',
+        },
+      ],
+      await idTokenFor('admin-uid', 'admin@gmail.com')
+    )
+
+    expect(response.status).toBe(412)
+    expect(await response.json()).toMatchObject({
+      error: 'rolled back',
+      op: 1,
+      reason: 'post/welcome-post has been modified',
+    })
+    expect(await exists(created.p)).toBe(false)
+  })
+})
@@ -0,0 +1,296 @@
+/**
+# /batch endpoint
+
+Applies several `/doc` writes atomically: either every operation succeeds or
+none of them is applied.
+
+## parameters
+- `ops` is a list of `{ method, p, data, ifMatch }` operations where
+  - `method` is `POST` (create), `PUT`, `PATCH`, or `DELETE`
+  - `p` and `data` are as for `/doc`
+  - `ifMatch` (optional) is an ETag, as for the `If-Match` header of `/doc`
+
+## methods
+- `POST` runs `ops` in a single Firestore transaction
+
+Each operation gets the same access, schema, `validate`, and `unique` checks as
+the equivalent `/doc` request, and unique fields must also differ between the
+records in the batch. On success the response lists each operation's result:
+
+```
+{ "results": [{ "p": "post/abc", "status": 200, "message": "created post/abc", "etag": "..." }] }
+```
+
+If any operation fails nothing is written and the response has the failing
+operation's status:
+
+```
+{ "error": "rolled back", "op": 1, "p": "config/blog", "reason": "validation failed" }
+```
+
+Note that `validate` functions may run more than once if Firestore retries the
+transaction.
+*/
+
+import { onRequest } from 'firebase-functions/v2/https'
+import * as admin from 'firebase-admin'
+import * as functions from 'firebase-functions'
+
+import {
+  optionsResponse,
+  getUserRoles,
+  logAudit,
+  rateLimited,
+  CONTENT_RATE_LIMIT,
+  PRE_AUTH_RATE_LIMIT,
+  RateLimitConfig,
+} from './utilities'
+import {
+  collectionPath,
+  getMethodAccess,
+  REST_METHOD,
+  ALL,
+  AccessFilterFunc,
+} from './collections/access'
+import { COLLECTIONS } from './collections'
+import {
+  getRef,
+  invalidateCache,
+  isDocRef,
+  prepareWrite,
+  SchemaError,
+} from './doc'
+import { docETag, etagFor, etagMatches } from './etag'
+import { saveVersion } from './version-history'
+
+const MAX_OPS = 100
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+interface BatchOp {
+  method: REST_METHOD
+  p: string
+  data?: Record<string, unknown>
+  ifMatch?: string
+}
+
+interface BatchResult {
+  p: string
+  status: number
+  message: string
+  etag?: string
+}
+
+type Failure = {
+  op: number
+  reason: string
+  status: number
+  details?: SchemaError[]
+}
+
+type Writes = Array<Record<string, unknown> | undefined>
+
+type FirestoreDocRef = FirebaseFirestore.DocumentReference
+
+// Finds the first record that repeats a unique value already used by an
+// earlier record in the batch
+const repeatedUniqueValue = (
+  ops: BatchOp[],
+  writes: Writes
+): { op: number; field: string } | undefined => {
+  const seen = new Set<string>()
+  for (const [index, data] of writes.entries()) {
+    const _collectionPath = collectionPath(ops[index].p)
+    for (const field of COLLECTIONS[_collectionPath].unique || []) {
+      if (data === undefined || data[field] === undefined) {
+        continue
+      }
+      const key = JSON.stringify([_collectionPath, field, data[field]])
+      if (seen.has(key)) {
+        return { op: index, field }
+      }
+      seen.add(key)
+    }
+  }
+  return undefined
+}
+
+const BATCH_RATE_LIMIT: RateLimitConfig = {
+  ...CONTENT_RATE_LIMIT,
+  name: 'batch',
+}
+
+export const batch = onRequest({}, async (req, res) => {
+  if (optionsResponse(req, res, ['POST'], PRE_AUTH_RATE_LIMIT)) {
+    return
+  }
+  const userRoles = await getUserRoles(req)
+  if (await rateLimited(req, res, userRoles, BATCH_RATE_LIMIT)) {
+    return
+  }
+  const ops = req.body.ops as BatchOp[] | undefined
+
+  if (!Array.isArray(ops) || ops.length === 0) {
+    res.status(400).send('missing ops')
+    return
+  }
+  if (ops.length > MAX_OPS) {
+    res.status(400).send(`at most ${MAX_OPS} ops may be batched`)
+    return
+  }
+  const malformed = ops.findIndex(
+    (op) =>
+      !op ||
+      typeof op !== 'object' ||
+      typeof op.p !== 'string' ||
+      !WRITE_METHODS.includes(op.method)
+  )
+  if (malformed >= 0) {
+    res.status(400).json({
+      error: 'rolled back',
+      op: malformed,
+      reason: `ops need a path (p) and a method (${WRITE_METHODS.join(', ')})`,
+    })
+    return
+  }
+
+  const rollback = async ({ op, reason, status, details }: Failure) => {
+    if (status === 403) {
+      await logAudit(userRoles, {
+        method: ops[op].method,
+        path: ops[op].p,
+        status,
+        reason,
+      })
+    }
+    res.status(status).json({
+      error: 'rolled back',
+      op,
+      p: ops[op].p,
+      reason,
+      ...(details ? { details } : {}),
+    })
+  }
+
+  // Resolve and authorize every operation before reading anything
+  const refs: FirestoreDocRef[] = []
+  const accesses: Array<typeof ALL | AccessFilterFunc> = []
+  for (const [op, { method, p }] of ops.entries()) {
+    if (p.split('/').length % 2 !== 0) {
+      await rollback({ op, reason: 'bad path', status: 400 })
+      return
+    }
+    const _collectionPath = collectionPath(p)
+    if (!COLLECTIONS[_collectionPath]) {
+      await rollback({ op, reason: 'not found', status: 404 })
+      return
+    }
+    const access = getMethodAccess(
+      COLLECTIONS,
+      _collectionPath,
+      method,
+      userRoles
+    )
+    if (!access) {
+      await rollback({ op, reason: 'forbidden', status: 403 })
+      return
+    }
+    const ref = await getRef(p)
+    if (ref instanceof Error) {
+      await rollback({ op, reason: ref.message, status: 404 })
+      return
+    }
+    if (!isDocRef(ref)) {
+      await rollback({ op, reason: 'invalid path', status: 400 })
+      return
+    }
+    if (refs.some((other) => other.path === ref.path)) {
+      await rollback({ op, reason: `${p} appears more than once`, status: 400 })
+      return
+    }
+    refs.push(ref)
+    accesses.push(access)
+  }
+
+  let before: Array<Record<string, unknown> | undefined> = []
+  try {
+    const outcome = await admin
+      .firestore()
+      .runTransaction(async (transaction): Promise<Writes | Failure> => {
+        const docs = await transaction.getAll(...refs)
+        before = docs.map((doc) => doc.data())
+        const writes: Writes = []
+        for (const [op, { method, p, data, ifMatch }] of ops.entries()) {
+          if (ifMatch && !etagMatches(ifMatch, docETag(docs[op]))) {
+            return { op, reason: `${p} has been modified`, status: 412 }
+          }
+          const prepared = await prepareWrite(
+            method,
+            p,
+            refs[op],
+            docs[op],
+            data,
+            accesses[op],
+            userRoles
+          )
+          if (!prepared.ok) {
+            const { reason, status, details } = prepared
+            return { op, reason, status, details }
+          }
+          writes.push(prepared.data)
+        }
+
+        const repeated = repeatedUniqueValue(ops, writes)
+        if (repeated) {
+          return {
+            op: repeated.op,
+            reason: `"${repeated.field}" is required to exist and be unique`,
+            status: 400,
+          }
+        }
+
+        // Nothing is written unless every operation passed
+        writes.forEach((data, op) => {
+          if (COLLECTIONS[collectionPath(ops[op].p)].versioned) {
+            saveVersion(transaction, docs[op])
+          }
+          if (data) {
+            transaction.set(refs[op], data)
+          } else {
+            transaction.delete(refs[op])
+          }
+        })
+        return writes
+      })
+
+    if (!Array.isArray(outcome)) {
+      await rollback(outcome)
+      return
+    }
+    await Promise.all(refs.map(invalidateCache))
+    for (const [op, after] of outcome.entries()) {
+      await logAudit(userRoles, {
+        method: ops[op].method,
+        path: refs[op].path,
+        before: before[op],
+        after,
+      })
+    }
+
+    const results: BatchResult[] = outcome.map((data, op) => {
+      const { method, p } = ops[op]
+      // soft deletes store data but are still deletes
+      return data && method !== 'DELETE'
+        ? {
+            p,
+            status: 200,
+            message: `${method === 'POST' ? 'created' : 'updated'} ${p}`,
+            etag: etagFor(data._modified as string),
+          }
+        : { p, status: 200, message: `deleted ${p}` }
+    })
+    res.status(200).json({ results })
+  } catch (e) {
+    functions.logger.error('Error applying batch:', e)
+    res.status(500).send('Batch failed')
+  }
+})
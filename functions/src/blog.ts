@@ -5,12 +5,13 @@ import { ROLES } from './collections/roles'
 import { getDocs } from './docs'
 import { getDoc } from './doc'
 import { config } from './config'
-import { getRecord, setRecord, AuthenticatedRequest } from './utilities'
-import { Response } from 'express'
+import { getRecord, setRecord } from './utilities'
 
-import { onPrefetch, PageOptions, PrefetchData } from './prefetch'
-import { currentPage } from './page'
-import { PostSchema } from '../shared/post'
+import { onPrefetch, PrefetchContext, PrefetchData } from './prefetch'
+import { renderPost } from './ssr'
+import { blogPostingLD, breadcrumbLD } from './seo'
+import { Post, PostSchema } from '../shared/post'
+import { Page } from '../shared/page'
 
 interface BlogConfig {
   prefix: string
@@ -47,12 +48,15 @@ export async function clearBlogCache(): Promise<void> {
 }
 
 onPrefetch(
-  async (
-    req: AuthenticatedRequest,
-    res: Response,
-    url: string,
-    options: PageOptions
-  ): Promise<PrefetchData> => {
+  'blog',
+  async ({
+    req,
+    res,
+    url,
+    options,
+    results,
+  }: PrefetchContext): Promise<PrefetchData> => {
+    const currentPage = results.page?.page as Page | undefined
     // Only prefetch blog data if on the blog page or configured to always prefetch
     const isOnBlogPage = currentPage?.path === 'blog'
     if (!config.alwaysPrefetchBlog && !isOnBlogPage) {
@@ -138,6 +142,23 @@ onPrefetch(
       options.description = summary || options.description
       options.url = `/blog/${path}`
       options.type = 'article'
+      options.publishedTime = post.date as string | undefined
+      options.modifiedTime = (post._modified || post.date) as string | undefined
+      options.author = post.author as string | undefined
+      options.structuredData.post = blogPostingLD(
+        options.origin,
+        post as Post,
+        options.url,
+        options.imageUrl
+      )
+    }
+    if (isOnBlogPage && currentPost) {
+      options.content.post = renderPost(currentPost as Post)
+      options.structuredData.breadcrumbs = breadcrumbLD(options.origin, [
+        { name: 'Home', url: '/' },
+        { name: currentPage?.title || 'Blog', url: '/blog' },
+        { name: currentPost.title as string, url: `/blog/${currentPost.path}` },
+      ])
     }
 
     const pageData: { [key: string]: any } = {
@@ -154,12 +175,19 @@ onPrefetch(
     }
 
     return pageData
-  }
+  },
+  { after: ['page'] }
 )
 
 COLLECTIONS.post = {
   schema: PostSchema,
   unique: ['title', 'path'],
+  versioned: true,
+  softDelete: true,
+  queryableFields: ['date', 'author'],
+  // authors may only change their own posts (and posts shared with them)
+  ownerField: 'authorUid',
+  collaboratorsField: 'collaborators',
   async validate(data: any): Promise<Error | any> {
     // Auto-generate path from title if not provided
     if (!data.path) {
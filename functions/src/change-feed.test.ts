@@ -0,0 +1,53 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import { createChangeFeed } from './change-feed'
+
+test('changes to visible records', async () => {
+  const feed = createChangeFeed()
+  expect(await feed('post/a', { title: 'A' })).toEqual({
+    type: 'added',
+    record: { title: 'A', _path: 'post/a' },
+  })
+  expect(await feed('post/a', { title: 'A!' })).toEqual({
+    type: 'modified',
+    record: { title: 'A!', _path: 'post/a' },
+  })
+  expect(await feed('post/a')).toEqual({
+    type: 'removed',
+    record: { _path: 'post/a' },
+  })
+  expect(await feed('post/a')).toBeUndefined()
+})
+
+test('soft-deleted records are removed', async () => {
+  const feed = createChangeFeed()
+  await feed('post/a', { title: 'A' })
+  expect(await feed('post/a', { title: 'A', _deleted: true })).toEqual({
+    type: 'removed',
+    record: { _path: 'post/a' },
+  })
+})
+
+test('hidden records are never sent', async () => {
+  const feed = createChangeFeed(async (post) =>
+    post.date ? { title: post.title } : new Error('unpublished')
+  )
+  expect(await feed('post/a', { title: 'draft' })).toBeUndefined()
+  expect(await feed('post/a', { title: 'draft', secret: 1 })).toBeUndefined()
+  expect(await feed('post/a')).toBeUndefined()
+
+  expect(await feed('post/b', { title: 'B', date: '2024' })).toEqual({
+    type: 'added',
+    record: { title: 'B', _path: 'post/b' },
+  })
+  // unpublishing looks like removal
+  expect(await feed('post/b', { title: 'B' })).toEqual({
+    type: 'removed',
+    record: { _path: 'post/b' },
+  })
+  expect(await feed('post/b', { title: 'B', date: '2025' })).toEqual({
+    type: 'added',
+    record: { title: 'B', _path: 'post/b' },
+  })
+})
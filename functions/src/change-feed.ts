@@ -0,0 +1,42 @@
+/**
+ * # change feed
+ *
+ * Turns the document changes `/watch` sees into the changes a client is
+ * allowed to see. A record the client can't see is never sent, a visible record
+ * that becomes hidden (including by being soft-deleted) is sent as `removed`,
+ * and a hidden one that becomes visible is sent as `added`.
+ */
+
+type Data = Record<string, unknown>
+
+export type ChangeType = 'added' | 'modified' | 'removed'
+
+export interface Change {
+  type: ChangeType
+  record: Data
+}
+
+// Decides whether (and how) a record is visible, as for /docs
+export type ChangeFilter = (record: Data) => Promise<Data | Error | undefined>
+
+export const createChangeFeed = (filter?: ChangeFilter) => {
+  const visible = new Set<string>()
+
+  // `data` is undefined when the document no longer exists
+  return async (path: string, data?: Data): Promise<Change | undefined> => {
+    let record: Data | Error | undefined =
+      data && data._deleted !== true ? { ...data, _path: path } : undefined
+    if (record && filter) {
+      record = await filter(record)
+    }
+    if (record && !(record instanceof Error)) {
+      const type = visible.has(path) ? 'modified' : 'added'
+      visible.add(path)
+      return { type, record: { ...record, _path: path } }
+    }
+    if (visible.delete(path)) {
+      return { type: 'removed', record: { _path: path } }
+    }
+    return undefined
+  }
+}
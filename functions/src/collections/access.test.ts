@@ -1,8 +1,32 @@
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore - bun:test types intermittently available
 import { test, expect, describe } from 'bun:test'
-import { ALL, collectionPath, getMethodAccess, CollectionMap } from './access'
-import { ROLES, UserRoles, RoleName } from './roles'
+import {
+  ALL,
+  collectionPath,
+  explainAccess,
+  forbiddenFields,
+  getMethodAccess,
+  isCollaborator,
+  isRecordOwner,
+  ownershipApplies,
+  unscoped,
+  withinScope,
+  CollectionConfig,
+  CollectionMap,
+} from './access'
+import {
+  ROLES,
+  UserRoles,
+  RoleName,
+  heldRoles,
+  hasRole,
+  mayGrant,
+  mayViewAs,
+  isRoleRecordId,
+  roleRank,
+  viewAsRoles,
+} from './roles'
 
 // Helper to create mock user roles
 const createUserRoles = (roles: string[]): UserRoles => ({
@@ -16,9 +40,9 @@ const publicUser = createUserRoles([ROLES.public])
 const authorUser = createUserRoles([ROLES.author])
 const adminUser = createUserRoles([ROLES.admin])
 const developerUser = createUserRoles([ROLES.developer])
-// Reserved for future tests:
-// const ownerUser = createUserRoles([ROLES.owner])
-// const multiRoleUser = createUserRoles([ROLES.author, ROLES.editor])
+const editorUser = createUserRoles([ROLES.editor])
+const ownerUser = createUserRoles([ROLES.owner])
+const multiRoleUser = createUserRoles([ROLES.author, ROLES.editor])
 
 describe('collectionPath', () => {
   test('extracts collection path from document path', () => {
@@ -165,12 +189,40 @@ describe('getMethodAccess', () => {
       ).toBe(ALL)
     })
 
-    test('developer cannot access admin-only secrets', () => {
+    test('developers and owners inherit admin access to secrets', () => {
       expect(
         getMethodAccess(testCollections, 'secrets', 'GET', developerUser)
+      ).toBe(ALL)
+      expect(
+        getMethodAccess(testCollections, 'secrets', 'GET', ownerUser)
+      ).toBe(ALL)
+    })
+
+    test('editor cannot access admin-only secrets', () => {
+      expect(
+        getMethodAccess(testCollections, 'secrets', 'GET', editorUser)
       ).toBeUndefined()
     })
 
+    test('the most privileged grant wins regardless of key order', () => {
+      const collections: CollectionMap = {
+        notes: {
+          access: {
+            [ROLES.editor]: { read: ALL },
+            [ROLES.public]: { read: { title: ALL } },
+            [ROLES.author]: { read: async () => new Error('drafts only') },
+          },
+        },
+      }
+      expect(getMethodAccess(collections, 'notes', 'GET', ownerUser)).toBe(ALL)
+      expect(getMethodAccess(collections, 'notes', 'GET', multiRoleUser)).toBe(
+        ALL
+      )
+      expect(
+        typeof getMethodAccess(collections, 'notes', 'GET', authorUser)
+      ).toBe('function')
+    })
+
     test('role inheritance - higher roles get lower role access', () => {
       // Author can read posts (public access)
       expect(getMethodAccess(testCollections, 'posts', 'GET', authorUser)).toBe(
@@ -321,6 +373,227 @@ describe('getMethodAccess', () => {
   })
 })
 
+describe('forbiddenFields', () => {
+  const existing = {
+    title: 'Hello',
+    content: 'old',
+    date: '2024-01-01',
+    _modified: '2024-01-01T00:00:00.000Z',
+  }
+  const authorWrite: CollectionMap = {
+    post: {
+      access: {
+        [ROLES.author]: {
+          write: { title: ALL, content: ALL, summary: ALL },
+        },
+      },
+    },
+  }
+
+  test('field maps allow changes to their fields', async () => {
+    const access = getMethodAccess(authorWrite, 'post', 'PATCH', authorUser)
+    if (typeof access !== 'function') throw new Error('expected filter')
+    const proposed = {
+      ...existing,
+      content: 'new',
+      summary: 'added',
+      _modified: '2024-02-01T00:00:00.000Z',
+    }
+    expect(
+      forbiddenFields(existing, proposed, await access(proposed, authorUser))
+    ).toEqual([])
+  })
+
+  test('field maps forbid changes to other fields', async () => {
+    const access = getMethodAccess(authorWrite, 'post', 'PUT', authorUser)
+    if (typeof access !== 'function') throw new Error('expected filter')
+    const { date, ...undated } = existing
+    expect(date).toBeDefined()
+    const proposed = { ...undated, content: 'new', author: 'someone' }
+    expect(
+      forbiddenFields(existing, proposed, await access(proposed, authorUser))
+    ).toEqual(['date', 'author'])
+  })
+
+  test('new records may only set allowed fields', async () => {
+    const access = getMethodAccess(authorWrite, 'post', 'POST', authorUser)
+    if (typeof access !== 'function') throw new Error('expected filter')
+    const proposed = { title: 'Hello', date: '2024-01-01', _modified: 'now' }
+    expect(
+      forbiddenFields({}, proposed, await access(proposed, authorUser))
+    ).toEqual(['date'])
+  })
+
+  test('filter functions can alter what they pass through', () => {
+    const proposed = { ...existing, title: 'Goodbye', date: '2025-01-01' }
+    expect(
+      forbiddenFields(existing, proposed, { ...proposed, title: 'Hello' })
+    ).toEqual(['title'])
+  })
+})
+
+describe('explainAccess', () => {
+  const collections: CollectionMap = {
+    notes: {
+      versioned: true,
+      access: {
+        [ROLES.editor]: { read: ALL },
+        [ROLES.public]: { read: { title: ALL, summary: ALL } },
+        [ROLES.author]: { write: ALL },
+      },
+    },
+  }
+
+  test('names the granting role and kind of grant', () => {
+    expect(explainAccess(collections, 'notes/abc', 'GET', authorUser)).toEqual({
+      collection: 'notes',
+      configured: true,
+      options: ['versioned'],
+      accessType: 'read',
+      heldRoles: [ROLES.public, ROLES.author],
+      grants: [
+        { role: ROLES.editor, held: false, kind: 'ALL' },
+        { role: ROLES.public, held: true, kind: 'fields' },
+        { role: ROLES.author, held: true },
+      ],
+      grantedBy: ROLES.public,
+      kind: 'fields',
+      fields: ['title', 'summary'],
+    })
+    expect(
+      explainAccess(collections, 'notes/abc', 'GET', editorUser)
+    ).toMatchObject({ grantedBy: ROLES.editor, kind: 'ALL' })
+  })
+
+  test('explains denials', () => {
+    const explanation = explainAccess(collections, 'notes', 'LIST', adminUser)
+    expect(explanation.grantedBy).toBeUndefined()
+    expect(explanation.grants.every(({ kind }) => !kind)).toBe(true)
+    expect(
+      explainAccess(collections, 'missing/abc', 'GET', adminUser)
+    ).toMatchObject({ configured: false, grants: [] })
+  })
+})
+
+describe('API key scopes', () => {
+  const collections: CollectionMap = {
+    post: { access: { [ROLES.author]: { read: ALL, write: ALL, list: ALL } } },
+    page: { access: { [ROLES.author]: { read: ALL, list: ALL } } },
+  }
+  const keyRoles = (apiKey: UserRoles['apiKey']): UserRoles => ({
+    ...createUserRoles([ROLES.editor]),
+    apiKey,
+  })
+
+  test('keys are limited to their collections and methods', () => {
+    const key = keyRoles({ collections: ['post'], methods: ['GET', 'LIST'] })
+    expect(getMethodAccess(collections, 'post', 'GET', key)).toBe(ALL)
+    expect(getMethodAccess(collections, 'post', 'LIST', key)).toBe(ALL)
+    expect(getMethodAccess(collections, 'post', 'PATCH', key)).toBeUndefined()
+    expect(getMethodAccess(collections, 'page', 'GET', key)).toBeUndefined()
+    expect(getMethodAccess(collections, 'page', 'GET', keyRoles({}))).toBe(ALL)
+  })
+
+  test('expired keys can do nothing', () => {
+    const key = keyRoles({ expires: '2024-02-01T00:00:00.000Z' })
+    expect(
+      withinScope(key, 'post', 'GET', new Date('2024-01-31T00:00:00.000Z'))
+    ).toBe(true)
+    expect(
+      withinScope(key, 'post', 'GET', new Date('2024-02-01T00:00:00.000Z'))
+    ).toBe(false)
+    expect(withinScope(editorUser, 'post', 'DELETE')).toBe(true)
+  })
+
+  test('only unscoped keys may use endpoints outside the collections', () => {
+    const now = new Date('2024-01-31T00:00:00.000Z')
+    expect(unscoped(editorUser)).toBe(true)
+    expect(unscoped(keyRoles({}))).toBe(true)
+    expect(unscoped(keyRoles({ collections: ['post'] }))).toBe(false)
+    expect(unscoped(keyRoles({ methods: ['GET'] }))).toBe(false)
+    expect(
+      unscoped(keyRoles({ expires: '2024-01-01T00:00:00.000Z' }), now)
+    ).toBe(false)
+  })
+})
+
+describe('ownership', () => {
+  const posts: CollectionConfig = {
+    ownerField: 'authorUid',
+    collaboratorsField: 'collaborators',
+  }
+  const post = { authorUid: 'ann', collaborators: ['bob'] }
+
+  test('applies below the exempt role', () => {
+    expect(ownershipApplies(posts, authorUser)).toBe(true)
+    expect(ownershipApplies(posts, editorUser)).toBe(false)
+    expect(ownershipApplies(posts, ownerUser)).toBe(false)
+    expect(ownershipApplies({}, authorUser)).toBe(false)
+    expect(
+      ownershipApplies({ ...posts, ownerExemptRole: ROLES.admin }, editorUser)
+    ).toBe(true)
+  })
+
+  test('owners and collaborators', () => {
+    expect(isRecordOwner(posts, post, 'ann')).toBe(true)
+    expect(isRecordOwner(posts, post, 'bob')).toBe(false)
+    expect(isCollaborator(posts, post, 'ann')).toBe(true)
+    expect(isCollaborator(posts, post, 'bob')).toBe(true)
+    expect(isCollaborator(posts, post, 'cat')).toBe(false)
+    expect(isCollaborator(posts, post, undefined)).toBe(false)
+    // records from before ownerField was set belong to no one
+    expect(isCollaborator(posts, {}, 'ann')).toBe(false)
+  })
+})
+
+describe('role hierarchy', () => {
+  test('roles include every less privileged role', () => {
+    expect(heldRoles([ROLES.admin]).sort()).toEqual(
+      [ROLES.admin, ROLES.editor, ROLES.author, ROLES.public].sort()
+    )
+    expect(heldRoles([])).toEqual([ROLES.public])
+    expect(hasRole(ownerUser, ROLES.author)).toBe(true)
+    expect(hasRole(editorUser, ROLES.admin)).toBe(false)
+  })
+
+  test('custom roles only inherit public', () => {
+    expect(heldRoles(['moderator']).sort()).toEqual(
+      ['moderator', ROLES.public].sort()
+    )
+    expect(roleRank('moderator')).toBeLessThan(roleRank(ROLES.editor))
+  })
+})
+
+describe('view as', () => {
+  test('headers list built-in roles or name a role record', () => {
+    expect(viewAsRoles('public')).toEqual([ROLES.public])
+    expect(viewAsRoles(' author, editor ')).toEqual([
+      ROLES.author,
+      ROLES.editor,
+    ])
+    expect(viewAsRoles('jane-role')).toBeUndefined()
+    expect(viewAsRoles('author,moderator')).toBeUndefined()
+    expect(isRoleRecordId('jane-role')).toBe(true)
+    expect(isRoleRecordId('role/jane-role')).toBe(false)
+    expect(isRoleRecordId('path=jane')).toBe(false)
+  })
+
+  test('admins may only downgrade', () => {
+    expect(mayViewAs(adminUser, [ROLES.author])).toBe(true)
+    expect(mayViewAs(adminUser, [])).toBe(true)
+    expect(mayViewAs(ownerUser, [ROLES.developer])).toBe(true)
+    expect(mayViewAs(adminUser, [ROLES.developer])).toBe(false)
+    expect(mayViewAs(adminUser, ['moderator'])).toBe(false)
+    expect(mayViewAs(editorUser, [ROLES.author])).toBe(false)
+  })
+
+  test('admins may only grant roles they hold', () => {
+    expect(mayGrant(adminUser, [ROLES.author, ROLES.editor])).toBe(true)
+    expect(mayGrant(adminUser, [ROLES.owner])).toBe(false)
+    expect(mayGrant(authorUser, [ROLES.author])).toBe(false)
+  })
+})
+
 describe('ROLES constants', () => {
   test('has expected role values', () => {
     expect(ROLES.public).toBe('public')
@@ -71,6 +71,22 @@ Schema validation provides:
 - Constraint enforcement (min, max, pattern, etc.)
 - Detailed error messages with paths
 
+## `queryableFields: string[]`
+
+The fields `/docs` may filter on using its `q` parameter (comparisons, `in`,
+and `array-contains(-any)`; see `query.ts`). Queries can reveal something about
+records even if the fields themselves are hidden by `list` access, so only list
+fields that callers are allowed to know about. Combining clauses (or a clause
+and a sort order) on different fields usually needs a composite index; `/docs`
+responds with the definition to add to `firestore.indexes.json`.
+
+```
+COLLECTIONS.post = {
+  queryableFields: ['date', 'author'],
+  ...
+}
+```
+
 ## `cacheLatencySeconds: number`
 
 Optional TTL (time-to-live) for caching document reads. When set, documents from
@@ -88,16 +104,86 @@ Use this for documents that:
 - Change infrequently
 - Can tolerate some staleness
 
-Note: Cache is per Cloud Function instance and cleared on cold starts.
+Note: Cache is per Cloud Function instance and cleared on cold starts. Writes
+via `/doc`, `/batch`, `/versions`, `/trash`, and `/state` drop the document from
+the writing instance's cache and bump `config/cache-generation`, which other
+instances check every few seconds (see `doc-cache.ts`). Hit and miss counts for
+each function are kept in the developer-only `cache-stats` collection.
+
+## `versioned: boolean`
+
+When set, every `/doc` and `/batch` write (including `DELETE`) first copies the
+previous version of the record into its `versions` subcollection. The
+`/versions` endpoint lists, fetches, diffs, and restores them using the
+collection's `read` and `write` access.
+
+```
+COLLECTIONS.post = {
+  versioned: true,
+  ...
+}
+```
+
+## `softDelete: boolean`
+
+When set, `DELETE` moves a record to the trash instead of removing it: the
+record is kept with `_deleted: true`, `_deletedBy` (the uid of the user who
+deleted it), and `_deletedAt`, and is hidden from `GET`, `LIST`, lookups, and
+`unique` checks. Admins, developers, and owners can list, restore, and purge
+the trash via the `/trash` endpoint.
+
+## `trashRetentionDays: number`
+
+How long soft-deleted records stay in the trash before the scheduled
+`purgeTrash` function removes them for good (default 30).
+
+```
+COLLECTIONS.post = {
+  softDelete: true,
+  trashRetentionDays: 90,
+  ...
+}
+```
+
+## `ownerField: string`
+
+The field holding the uid of the user who created a record. `POST` sets it to
+the creator's uid, and users may only change (`PUT`, `PATCH`, `DELETE`) records
+they own, or collaborate on, unless they have the `ownerExemptRole`. Only the
+owner (or an exempt role) may change `collaboratorsField`, and only exempt roles
+may change `ownerField`. Records without an owner (e.g. created before
+`ownerField` was set) can only be changed by exempt roles.
+
+`/docs?mine` lists only the records the user owns or collaborates on.
+
+## `collaboratorsField: string`
+
+A field listing the uids of other users who may change a record.
+
+## `ownerExemptRole: RoleName`
+
+The role (along with the roles above it) that may change records it doesn't
+own; the default is `editor`.
+
+```
+COLLECTIONS.post = {
+  ownerField: 'authorUid',
+  collaboratorsField: 'collaborators',
+  ...
+}
+```
 
 ## `access: { [key: string]: AccessConfig }`
 
 This controls access to records in a collection. The `key` ROLES.public defines
 access for anyone.
 
-The `access` map should define roles in order of *increasing privilege* (i.e.
-from most-restricted, such as `public` access through to `admin`, `superuser`,
-and `owner` etc.)
+Roles inherit the grants of less privileged roles (see `ROLE_INHERITANCE` in
+`roles.ts`: owner ⊃ developer ⊃ admin ⊃ editor ⊃ author ⊃ public), so a grant
+to `author` also applies to editors, admins, developers, and owners. For each
+of `read`, `write`, and `list`, a user gets the grant to the most privileged
+role they hold (directly or by inheritance) that has one; the order of the keys
+doesn't matter.
 
 ```
 export interface AccessConfig {
@@ -117,6 +203,31 @@ for a given role.
 - `AccessFilterFunc` can do whatever it pleases, including returning an `Error`
   (which masks docs from `list` requests and blocks access to specific docs)
 
+For `write`, a `FieldAccessMap` or `AccessFilterFunc` restricts which fields a
+`POST` may set and a `PUT` or `PATCH` may change. The new record is passed
+through the filter, and any field that was set or changed and that it doesn't
+pass through unchanged is forbidden (as is the whole write if it returns an
+`Error`). A `POST` is compared with an empty record, apart from the owner it
+stamps (see `ownerField`). E.g. this lets authors write a post's content but not
+publish it or change its author:
+
+```
+COLLECTIONS.post = {
+  access: {
+    [ROLES.author]: {
+      write: { title: ALL, content: ALL, summary: ALL },
+    },
+    [ROLES.editor]: {
+      write: ALL,
+    },
+  },
+}
+```
+
+Forbidden writes get a `403`, which names the forbidden fields for admin,
+developer, and owner roles. Deleting records is not field-restricted (`DELETE`
+needs `ALL`), and `validate` can still set any field.
+
 ## Sub-Collections
 
 You can specify access configuration for nested collections by using the `/` syntax
@@ -132,7 +243,14 @@ COLLECTIONS['post/comment'] = {
 
 */
 
-import { ROLES, UserRoles } from './roles'
+import {
+  hasRole,
+  heldRoles,
+  roleRank,
+  RoleName,
+  ROLES,
+  UserRoles,
+} from './roles'
 import type { Base } from 'tosijs-schema'
 
 export const ALL = Symbol('ALL')
@@ -158,6 +276,7 @@ export interface CollectionConfig {
   schema?: Base<any> // tosijs-schema for automatic validation
   unique?: string[]
   tagFields?: string[] // fields that support array-contains queries via tagField=<value> syntax
+  queryableFields?: string[] // fields /docs may filter on via its q parameter
   validate?: (
     data: any,
     userRoles: UserRoles,
@@ -165,6 +284,74 @@ export interface CollectionConfig {
   ) => Promise<Error | any>
   access?: { [key: string]: AccessConfig | undefined }
   cacheLatencySeconds?: number // TTL cache for reads; cached data may be stale up to this many seconds
+  versioned?: boolean // keep every previous version of a record (see /versions)
+  softDelete?: boolean // DELETE moves records to the trash (see /trash)
+  trashRetentionDays?: number // days before trashed records are purged
+  ownerField?: string // uid of the record's creator; limits who may change it
+  collaboratorsField?: string // uids of other users who may change the record
+  ownerExemptRole?: RoleName // may change anyone's records (default editor)
+}
+
+// Fields set by the server (or, for _version_note_, annotating the version)
+// which write access never restricts
+export const SYSTEM_FIELDS = [
+  '_path',
+  '_created',
+  '_modified',
+  '_version_note_',
+]
+
+// Lists the fields a write changes that `allowed` (the proposed record after
+// passing through the write access filter) doesn't pass through unchanged
+export const forbiddenFields = (
+  existing: Record<string, unknown>,
+  proposed: Record<string, unknown>,
+  allowed: Record<string, unknown>
+): string[] => {
+  const same = (a: unknown, b: unknown) =>
+    JSON.stringify(a) === JSON.stringify(b)
+  const fields = new Set([...Object.keys(existing), ...Object.keys(proposed)])
+  return [...fields].filter(
+    (field) =>
+      !SYSTEM_FIELDS.includes(field) &&
+      !same(existing[field], proposed[field]) &&
+      !(field in allowed && same(allowed[field], proposed[field]))
+  )
+}
+
+// Whether ownership limits what this user may change in the collection
+export const ownershipApplies = (
+  config: CollectionConfig,
+  userRoles: UserRoles
+): boolean =>
+  config.ownerField !== undefined &&
+  !hasRole(userRoles, config.ownerExemptRole || ROLES.editor)
+
+export const isRecordOwner = (
+  config: CollectionConfig,
+  record: Record<string, unknown>,
+  uid?: string
+): boolean =>
+  uid !== undefined &&
+  config.ownerField !== undefined &&
+  record[config.ownerField] === uid
+
+export const isCollaborator = (
+  config: CollectionConfig,
+  record: Record<string, unknown>,
+  uid?: string
+): boolean => {
+  if (isRecordOwner(config, record, uid)) {
+    return true
+  }
+  const collaborators = config.collaboratorsField
+    ? record[config.collaboratorsField]
+    : undefined
+  return (
+    uid !== undefined &&
+    Array.isArray(collaborators) &&
+    collaborators.includes(uid)
+  )
 }
 
 export interface CollectionMap {
@@ -186,6 +373,58 @@ export const collectionPath = (path: string): string => {
   return pathParts.filter((_, index) => index % 2 === 0).join('/')
 }
 
+export type AccessType = 'read' | 'write' | 'list'
+
+// The role whose grant applies: the most privileged role the user holds,
+// directly or by inheritance, with a grant of this type
+export const grantingRole = (
+  config: CollectionConfig,
+  accessType: AccessType,
+  userRoles: UserRoles
+): string | undefined => {
+  const held = heldRoles(userRoles.roles)
+  let granting: string | undefined
+  for (const [role, roleAccess] of Object.entries(config.access || {})) {
+    if (
+      roleAccess?.[accessType] &&
+      held.includes(role) &&
+      (granting === undefined || roleRank(role) > roleRank(granting))
+    ) {
+      granting = role
+    }
+  }
+  return granting
+}
+
+// Whether an API key's scopes (if the request used one) allow the request
+export const withinScope = (
+  userRoles: UserRoles,
+  collectionPath: string,
+  method: REST_METHOD,
+  now = new Date()
+): boolean => {
+  const scopes = userRoles.apiKey
+  return (
+    !scopes ||
+    ((!scopes.collections || scopes.collections.includes(collectionPath)) &&
+      (!scopes.methods || scopes.methods.includes(method)) &&
+      (!scopes.expires || new Date(scopes.expires) > now))
+  )
+}
+
+// Whether the request may use endpoints that aren't about one collection
+// (like /state and /gen), which a key limited to some collections or methods
+// may not
+export const unscoped = (userRoles: UserRoles, now = new Date()): boolean => {
+  const scopes = userRoles.apiKey
+  return (
+    !scopes ||
+    (!scopes.collections &&
+      !scopes.methods &&
+      (!scopes.expires || new Date(scopes.expires) > now))
+  )
+}
+
 export const getMethodAccess = (
   collections: CollectionMap,
   collectionPath: string,
@@ -199,24 +438,19 @@ export const getMethodAccess = (
     return undefined
   }
 
-  let roleAccess = config.access[ROLES.public]
-  const accessType = accessMap[method] as 'read' | 'write' | 'list' | undefined
-
-  if (accessType === undefined) {
+  if (!withinScope(userRoles, collectionPath, method)) {
     return undefined
   }
 
-  let access = roleAccess ? roleAccess[accessType] : undefined
+  const accessType = accessMap[method] as AccessType | undefined
 
-  for (const role of Object.keys(config.access)) {
-    if (userRoles.roles.includes(role as keyof typeof ROLES)) {
-      roleAccess = config.access[role]
-      if (roleAccess && roleAccess[accessType]) {
-        access = roleAccess[accessType]
-      }
-    }
+  if (accessType === undefined) {
+    return undefined
   }
 
+  const role = grantingRole(config, accessType, userRoles)
+  let access = role ? config.access[role]?.[accessType] : undefined
+
   if (filterFields) {
     if (access === ALL) {
       access = filterFields.reduce((map, key) => {
@@ -248,3 +482,68 @@ export const getMethodAccess = (
     return access
   }
 }
+
+export type GrantKind = 'ALL' | 'fields' | 'filter'
+
+const grantKind = (
+  grant: typeof ALL | FieldAccessMap | AccessFilterFunc
+): GrantKind =>
+  grant === ALL ? 'ALL' : typeof grant === 'function' ? 'filter' : 'fields'
+
+export interface AccessExplanation {
+  collection: string
+  configured: boolean
+  options: string[] // the collection's config options, other than access
+  accessType?: AccessType
+  heldRoles: string[]
+  grants: Array<{ role: string; held: boolean; kind?: GrantKind }>
+  grantedBy?: string
+  kind?: GrantKind
+  fields?: string[] // for a FieldAccessMap, the fields it passes through
+}
+
+// Why getMethodAccess gives (or denies) a user access, for /access/explain
+export const explainAccess = (
+  collections: CollectionMap,
+  path: string,
+  method: REST_METHOD,
+  userRoles: UserRoles
+): AccessExplanation => {
+  const collection = collectionPath(path)
+  const config = collections[collection]
+  const accessType = accessMap[method] as AccessType | undefined
+  const held = heldRoles(userRoles.roles)
+  const explanation: AccessExplanation = {
+    collection,
+    configured: config !== undefined,
+    options: Object.keys(config || {}).filter((key) => key !== 'access'),
+    accessType,
+    heldRoles: held,
+    grants: [],
+  }
+  if (!config || !accessType) {
+    return explanation
+  }
+  explanation.grants = Object.entries(config.access || {}).map(
+    ([role, roleAccess]) => {
+      const grant = roleAccess?.[accessType]
+      return {
+        role,
+        held: held.includes(role),
+        ...(grant ? { kind: grantKind(grant) } : {}),
+      }
+    }
+  )
+  const role = grantingRole(config, accessType, userRoles)
+  const grant = role ? config.access?.[role]?.[accessType] : undefined
+  if (role && grant) {
+    explanation.grantedBy = role
+    explanation.kind = grantKind(grant)
+    if (explanation.kind === 'fields') {
+      explanation.fields = Object.keys(grant).filter(
+        (field) => (grant as FieldAccessMap)[field] === ALL
+      )
+    }
+  }
+  return explanation
+}
@@ -0,0 +1,60 @@
+import { COLLECTIONS } from './index'
+import { ALL, REST_METHOD } from './access'
+import { ROLES } from './roles'
+
+const METHODS: REST_METHOD[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'LIST']
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+// Keys for server-to-server access (see api-key.ts). Owners create them with
+// /access/api-key, which returns the key once, and can change their scopes,
+// revoke them, or delete them through /doc.
+COLLECTIONS['api-key'] = {
+  async validate(data, _userRoles, existing): Promise<Error | any> {
+    if (typeof data.name !== 'string' || !data.name) {
+      return new Error('name is required')
+    }
+    // reads hide the hash, so replacing a key keeps it
+    if (data.keyHash === undefined && existing?.keyHash) {
+      data.keyHash = existing.keyHash
+    }
+    if (typeof data.keyHash !== 'string' || !data.keyHash) {
+      return new Error('keyHash is required')
+    }
+    if (!isStringList(data.roles)) {
+      return new Error('roles must be a list of roles')
+    }
+    if (data.collections !== undefined && !isStringList(data.collections)) {
+      return new Error('collections must be a list of collection paths')
+    }
+    if (
+      data.methods !== undefined &&
+      !(
+        isStringList(data.methods) &&
+        data.methods.every((method: string) =>
+          METHODS.includes(method as REST_METHOD)
+        )
+      )
+    ) {
+      return new Error(`methods must be some of ${METHODS.join(', ')}`)
+    }
+    if (data.expires !== undefined && isNaN(Date.parse(data.expires))) {
+      return new Error('expires must be a date')
+    }
+    return data
+  },
+  access: {
+    [ROLES.owner]: {
+      read: async (data) => {
+        delete data.keyHash
+        return data
+      },
+      list: async (data) => {
+        delete data.keyHash
+        return data
+      },
+      write: ALL,
+    },
+  },
+}
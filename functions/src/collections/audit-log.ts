@@ -0,0 +1,16 @@
+import { COLLECTIONS } from './index'
+import { ALL } from './access'
+import { ROLES } from './roles'
+
+// Who changed what, and refused requests, written by logAudit (see
+// audit-log.ts). firestore.indexes.json has the indexes the viewer's
+// filters need.
+COLLECTIONS['audit-log'] = {
+  queryableFields: ['uid', 'collection', '_created'],
+  access: {
+    [ROLES.admin]: {
+      read: ALL,
+      list: ALL,
+    },
+  },
+}
@@ -0,0 +1,13 @@
+import { COLLECTIONS } from './index'
+import { ALL } from './access'
+import { ROLES } from './roles'
+
+// Document cache hit/miss counts, one record per function (see doc-cache.ts)
+COLLECTIONS['cache-stats'] = {
+  access: {
+    [ROLES.developer]: {
+      read: ALL,
+      list: ALL,
+    },
+  },
+}
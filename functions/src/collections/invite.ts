@@ -0,0 +1,30 @@
+import { COLLECTIONS } from './index'
+import { ALL } from './access'
+import { ROLES } from './roles'
+import { InviteSchema } from '../../shared/invite'
+
+// Everything but the token hash
+const INVITE_FIELDS = {
+  name: ALL,
+  roles: ALL,
+  roleId: ALL,
+  expires: ALL,
+  invitedBy: ALL,
+  acceptedBy: ALL,
+  accepted: ALL,
+  revoked: ALL,
+  _created: ALL,
+  _modified: ALL,
+}
+
+// Invitations are created, accepted, and revoked through /invite (see
+// invite.ts), so nobody writes them directly
+COLLECTIONS.invite = {
+  schema: InviteSchema,
+  access: {
+    [ROLES.admin]: {
+      read: INVITE_FIELDS,
+      list: INVITE_FIELDS,
+    },
+  },
+}
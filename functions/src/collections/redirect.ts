@@ -0,0 +1,37 @@
+import { COLLECTIONS } from './index'
+import { ALL } from './access'
+import { ROLES } from './roles'
+import { RedirectSchema } from '../../shared/redirect'
+
+// Redirects and 410s applied by prefetch and stored (see redirects.ts).
+// Requests that hit a rule update its hits and lastHit, so stale rules can be
+// found with e.g. /docs/redirect?q=lastHit<2024-01-01.
+COLLECTIONS.redirect = {
+  schema: RedirectSchema,
+  queryableFields: ['lastHit', 'hits', 'status'],
+  async validate(data): Promise<Error | any> {
+    if (data.match === 'regex') {
+      try {
+        new RegExp(data.source)
+      } catch (e) {
+        return new Error(`source is not a valid regular expression: ${e}`)
+      }
+    } else if (!data.source.startsWith('/')) {
+      return new Error('source must be a path starting with /')
+    }
+    if (data.status !== 410 && !data.target) {
+      return new Error('target is required unless status is 410')
+    }
+    if (data.expires !== undefined && isNaN(Date.parse(data.expires))) {
+      return new Error('expires must be a date')
+    }
+    return data
+  },
+  access: {
+    [ROLES.admin]: {
+      read: ALL,
+      write: ALL,
+      list: ALL,
+    },
+  },
+}
@@ -1,13 +1,80 @@
-export const ROLES = {
-  owner: 'owner',
-  developer: 'developer',
-  admin: 'admin',
-  editor: 'editor',
-  author: 'author',
-  public: 'public',
-} as const
+// Each role inherits every grant made to the roles it lists (and so on down):
+// owner ⊃ developer ⊃ admin ⊃ editor ⊃ author ⊃ public
+export const ROLE_INHERITANCE = {
+  owner: ['developer'],
+  developer: ['admin'],
+  admin: ['editor'],
+  editor: ['author'],
+  author: ['public'],
+  public: [],
+} as const satisfies Record<string, readonly string[]>
 
-export type RoleName = (typeof ROLES)[keyof typeof ROLES]
+export type RoleName = keyof typeof ROLE_INHERITANCE
+
+export const ROLES = Object.fromEntries(
+  Object.keys(ROLE_INHERITANCE).map((role) => [role, role])
+) as { readonly [R in RoleName]: R }
+
+// A role along with every role it inherits. Roles that aren't in the graph
+// (e.g. custom ones named in a collection's access) only inherit public.
+export const inheritedRoles = (role: string): string[] => {
+  const found = new Set<string>()
+  const visit = (name: string) => {
+    if (!found.has(name)) {
+      found.add(name)
+      const inherits: readonly string[] =
+        ROLE_INHERITANCE[name as RoleName] || []
+      inherits.forEach(visit)
+    }
+  }
+  visit(role)
+  found.add(ROLES.public)
+  return [...found]
+}
+
+// Every role held through any of these roles (everyone is public)
+export const heldRoles = (roles: readonly string[]): string[] => [
+  ...new Set([ROLES.public, ...roles].flatMap(inheritedRoles)),
+]
+
+export const hasRole = (userRoles: UserRoles, role: RoleName): boolean =>
+  heldRoles(userRoles.roles).includes(role)
+
+// How privileged a role is: the number of roles it includes
+export const roleRank = (role: string): number => inheritedRoles(role).length
+
+// The roles named by an X-View-As header (e.g. "public" or "author,editor"),
+// or undefined if it doesn't list built-in roles (so it's a role record id)
+export const viewAsRoles = (value: string): RoleName[] | undefined => {
+  const names = value
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+  return names.length > 0 && names.every((name) => name in ROLE_INHERITANCE)
+    ? (names as RoleName[])
+    : undefined
+}
+
+// Whether an X-View-As header could be a role record id (ids with `/` or other
+// punctuation can't be looked up, so they're refused without trying)
+export const isRoleRecordId = (value: string): boolean =>
+  /^[\w-]{1,128}$/.test(value)
+
+// Admins (and up) may grant (e.g. by invitation) any roles they already hold,
+// but never anything more privileged
+export const mayGrant = (
+  userRoles: UserRoles,
+  roles: readonly string[]
+): boolean => {
+  const held = heldRoles(userRoles.roles)
+  return (
+    hasRole(userRoles, ROLES.admin) &&
+    heldRoles(roles).every((role) => held.includes(role))
+  )
+}
+
+// ...and view the site as them
+export const mayViewAs = mayGrant
 
 // Legacy alias for backwards compatibility
 export type Role = keyof typeof ROLES
@@ -17,6 +84,13 @@ export interface UserContact {
   value: string
 }
 
+// Limits on what an API key (see api-key.ts) may do beyond its roles
+export interface ApiKeyScopes {
+  collections?: string[] // the collection paths it may access (default all)
+  methods?: string[] // GET, POST, PUT, PATCH, DELETE, and LIST (default all)
+  expires?: string // ISO date after which it may do nothing
+}
+
 export interface UserRoles {
   _id?: string
   _collection?: string
@@ -24,6 +98,9 @@ export interface UserRoles {
   contacts: UserContact[]
   roles: RoleName[]
   userIds: string[]
+  uid?: string // the signed-in user these roles were resolved for
+  viewingAs?: string // the X-View-As the roles were downgraded to
+  apiKey?: ApiKeyScopes // set when the request was made with an API key
 }
 
 export const anonymousUser: UserRoles = Object.freeze({
@@ -0,0 +1,52 @@
+import { COLLECTIONS } from './index'
+import { ALL } from './access'
+import { ROLES } from './roles'
+import { UNHOOKABLE, WEBHOOK_EVENTS } from '../webhook-delivery'
+
+const URL_CHECK = /^https?:\/\/[^\s]+$/
+
+// Outbound webhooks, see webhooks.ts
+COLLECTIONS.webhook = {
+  async validate(data): Promise<Error | any> {
+    if (!COLLECTIONS[data.collection]) {
+      return new Error(`unknown collection "${data.collection}"`)
+    }
+    if (UNHOOKABLE.includes(data.collection)) {
+      return new Error(`"${data.collection}" can't have webhooks`)
+    }
+    if (
+      !Array.isArray(data.events) ||
+      !data.events.length ||
+      data.events.some(
+        (event: string) =>
+          !(WEBHOOK_EVENTS as readonly string[]).includes(event)
+      )
+    ) {
+      return new Error(`events must be some of ${WEBHOOK_EVENTS.join(', ')}`)
+    }
+    if (typeof data.url !== 'string' || !URL_CHECK.test(data.url)) {
+      return new Error('url must be an http(s) url')
+    }
+    if (typeof data.secret !== 'string' || !data.secret) {
+      return new Error('secret is required')
+    }
+    return data
+  },
+  access: {
+    [ROLES.developer]: {
+      read: ALL,
+      write: ALL,
+      list: ALL,
+    },
+  },
+}
+
+// The log of webhook deliveries, written by webhooks.ts
+COLLECTIONS['webhook-delivery'] = {
+  access: {
+    [ROLES.developer]: {
+      read: ALL,
+      list: ALL,
+    },
+  },
+}
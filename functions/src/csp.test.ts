@@ -0,0 +1,80 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import { contentSecurityPolicy, DEFAULT_CSP } from './csp'
+
+const directive = (policy: string, name: string): string[] =>
+  (
+    policy.split('; ').find((directive) => directive.startsWith(`${name} `)) ||
+    ''
+  )
+    .split(' ')
+    .slice(1)
+
+test('scripts need the nonce or an allowed origin', () => {
+  const scriptSrc = directive(contentSecurityPolicy('abc123'), 'script-src')
+  expect(scriptSrc.slice(0, 3)).toEqual([
+    "'self'",
+    "'nonce-abc123'",
+    "'unsafe-eval'",
+  ])
+  expect(scriptSrc).toContain('cdn.jsdelivr.net')
+  expect(scriptSrc).not.toContain("'unsafe-inline'")
+  expect(
+    directive(
+      contentSecurityPolicy('abc123', { allowEval: false }),
+      'script-src'
+    )
+  ).not.toContain("'unsafe-eval'")
+})
+
+test('config/csp adds origins', () => {
+  const policy = contentSecurityPolicy('n', {
+    scriptSrc: ['https://unpkg.com', 'cdn.jsdelivr.net'],
+    connectSrc: ['https://api.example.com'],
+    imgSrc: ['http://images.example.com'],
+  })
+  const scriptSrc = directive(policy, 'script-src')
+  expect(scriptSrc).toContain('https://unpkg.com')
+  expect(
+    scriptSrc.filter((source) => source === 'cdn.jsdelivr.net').length
+  ).toBe(1)
+  expect(directive(policy, 'connect-src')).toEqual([
+    "'self'",
+    ...DEFAULT_CSP.connectSrc,
+    'https://api.example.com',
+  ])
+  expect(directive(policy, 'img-src')).toContain('http://images.example.com')
+})
+
+test('config/csp cannot add keywords or directives', () => {
+  const policy = contentSecurityPolicy('n', {
+    scriptSrc: [
+      "'unsafe-inline'",
+      'example.com; script-src *',
+      'a.com b.com',
+      42 as unknown as string,
+    ],
+    imgSrc: 'https://x.com' as unknown as string[],
+  })
+  const scriptSrc = directive(policy, 'script-src')
+  expect(scriptSrc).toEqual([
+    "'self'",
+    "'nonce-n'",
+    "'unsafe-eval'",
+    ...DEFAULT_CSP.scriptSrc,
+  ])
+  expect(
+    policy.split('; ').filter((d) => d.startsWith('script-src')).length
+  ).toBe(1)
+  expect(directive(policy, 'img-src')).not.toContain('https://x.com')
+})
+
+test('the emulators may be reached locally', () => {
+  expect(directive(contentSecurityPolicy('n'), 'connect-src')).not.toContain(
+    'http://localhost:*'
+  )
+  expect(
+    directive(contentSecurityPolicy('n', {}, true), 'connect-src')
+  ).toContain('http://localhost:*')
+})
@@ -0,0 +1,90 @@
+/**
+ * # Content-Security-Policy
+ *
+ * `prefetch` sends a policy with every page it renders. Scripts must come from
+ * this site or an allowed origin, or carry the nonce `render` gives the
+ * scripts it writes, so script injected into a page (e.g. by a post) won't
+ * run. The origins are `DEFAULT_CSP`'s plus any in the `config/csp` document,
+ * so admins can allow a new CDN without a deploy:
+ *
+ * ```
+ * { scriptSrc: ['https://unpkg.com'], connectSrc: [], imgSrc: [] }
+ * ```
+ *
+ * `allowEval: false` drops `'unsafe-eval'`, which live examples in blog posts
+ * need.
+ */
+
+export interface CspConfig {
+  scriptSrc?: string[]
+  connectSrc?: string[]
+  imgSrc?: string[]
+  allowEval?: boolean
+}
+
+export const DEFAULT_CSP = {
+  scriptSrc: [
+    'cdnjs.cloudflare.com',
+    'cdn.jsdelivr.net',
+    'apis.google.com',
+    'www.googletagmanager.com',
+    'api.mapbox.com',
+  ],
+  // Firebase, Analytics, and the CDNs modules are loaded from
+  connectSrc: [
+    'https://*.googleapis.com',
+    'https://*.cloudfunctions.net',
+    'https://*.firebaseio.com',
+    'wss://*.firebaseio.com',
+    'https://*.google-analytics.com',
+    'https://*.analytics.google.com',
+    'www.googletagmanager.com',
+    'api.mapbox.com',
+    'cdnjs.cloudflare.com',
+    'cdn.jsdelivr.net',
+  ],
+  // Posts show images from anywhere
+  imgSrc: ['data:', 'blob:', 'https:'],
+}
+
+// The emulators run on other ports
+const LOCAL_SOURCES = [
+  'http://localhost:*',
+  'http://127.0.0.1:*',
+  'ws://localhost:*',
+  'ws://127.0.0.1:*',
+]
+
+// Hosts and schemes only: keywords (like 'unsafe-inline') and anything that
+// could end the directive are ignored
+export const validSource = (source: unknown): source is string =>
+  typeof source === 'string' && /^[^\s;,'"]+$/.test(source)
+
+const sources = (...lists: Array<unknown[] | undefined>): string =>
+  [
+    ...new Set(
+      lists
+        .flatMap((list) => (Array.isArray(list) ? list : []))
+        .filter(validSource)
+    ),
+  ].join(' ')
+
+export const contentSecurityPolicy = (
+  nonce: string,
+  config: CspConfig = {},
+  local = false
+): string =>
+  [
+    `script-src 'self' 'nonce-${nonce}'${
+      config.allowEval === false ? '' : " 'unsafe-eval'"
+    } ${sources(DEFAULT_CSP.scriptSrc, config.scriptSrc)}`,
+    `connect-src 'self' ${sources(
+      DEFAULT_CSP.connectSrc,
+      config.connectSrc,
+      local ? LOCAL_SOURCES : []
+    )}`,
+    `img-src 'self' ${sources(DEFAULT_CSP.imgSrc, config.imgSrc)}`,
+    "worker-src 'self' blob:",
+    "object-src 'none'",
+    "base-uri 'self'",
+  ].join('; ')
@@ -0,0 +1,113 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import { createDocCache, CacheCounts } from './doc-cache'
+
+// A shared generation counter, as several instances would see it
+const sharedStore = () => {
+  const store = {
+    value: 0,
+    reports: [] as CacheCounts[],
+    generation: async () => store.value,
+    bump: async () => ++store.value,
+    report: async (counts: CacheCounts) => {
+      store.reports.push(counts)
+    },
+  }
+  return store
+}
+
+const clock = () => {
+  const time = { now: 0, tick: (ms: number) => (time.now += ms) }
+  return time
+}
+
+test('entries expire', async () => {
+  const time = clock()
+  const cache = createDocCache(sharedStore(), { now: () => time.now })
+  cache.set('config/app', 'config/app', { title: 'app' }, 60)
+  expect(await cache.get('config/app')).toEqual({ title: 'app' })
+  time.tick(61 * 1000)
+  expect(await cache.get('config/app')).toBeUndefined()
+  expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, entries: 0 })
+})
+
+test('writes drop every alias of a document', async () => {
+  const cache = createDocCache(sharedStore())
+  cache.set('post/abc', 'post/abc', { path: 'hello' }, 60)
+  cache.set('post/path=hello', 'post/abc', { path: 'hello' }, 60)
+  cache.set('post/def', 'post/def', { path: 'other' }, 60)
+  await cache.invalidate('post/abc')
+  expect(await cache.get('post/abc')).toBeUndefined()
+  expect(await cache.get('post/path=hello')).toBeUndefined()
+  expect(await cache.get('post/def')).toEqual({ path: 'other' })
+  expect(cache.stats().invalidations).toBe(2)
+})
+
+test('writes on other instances flush the cache', async () => {
+  const time = clock()
+  const store = sharedStore()
+  const options = { now: () => time.now, pollSeconds: 10 }
+  const here = createDocCache(store, options)
+  const there = createDocCache(store, options)
+
+  here.set('config/app', 'config/app', { title: 'old' }, 300)
+  expect(await here.get('config/app')).toEqual({ title: 'old' })
+  await there.invalidate('config/app')
+
+  // not noticed until the next poll
+  time.tick(5 * 1000)
+  expect(await here.get('config/app')).toEqual({ title: 'old' })
+  time.tick(5 * 1000)
+  expect(await here.get('config/app')).toBeUndefined()
+  expect(here.stats().flushes).toBe(1)
+})
+
+test('own writes do not flush the cache', async () => {
+  const time = clock()
+  const cache = createDocCache(sharedStore(), { now: () => time.now })
+  cache.set('config/app', 'config/app', { title: 'app' }, 300)
+  cache.set('config/blog', 'config/blog', { prefix: 'blog' }, 300)
+  expect(await cache.get('config/app')).toEqual({ title: 'app' })
+  await cache.invalidate('config/app')
+  time.tick(10 * 1000)
+  expect(await cache.get('config/blog')).toEqual({ prefix: 'blog' })
+  expect(cache.stats().flushes).toBe(0)
+})
+
+test('counts are reported periodically', async () => {
+  const time = clock()
+  const store = sharedStore()
+  const cache = createDocCache(store, {
+    now: () => time.now,
+    pollSeconds: 10,
+    reportSeconds: 60,
+  })
+  await cache.get('config/app')
+  cache.set('config/app', 'config/app', {}, 300)
+  await cache.get('config/app')
+  expect(store.reports).toEqual([])
+  time.tick(60 * 1000)
+  await cache.get('config/app')
+  expect(store.reports).toEqual([
+    { hits: 1, misses: 1, invalidations: 0, flushes: 0 },
+  ])
+})
+
+test('least recently used entries are evicted', async () => {
+  const time = clock()
+  const cache = createDocCache(sharedStore(), {
+    now: () => time.now,
+    maxEntries: 5,
+  })
+  for (const id of [1, 2, 3, 4, 5]) {
+    time.tick(1)
+    cache.set(`doc/${id}`, `doc/${id}`, { id }, 60)
+  }
+  time.tick(1)
+  await cache.get('doc/1')
+  cache.set('doc/6', 'doc/6', { id: 6 }, 60)
+  expect(await cache.get('doc/1')).toEqual({ id: 1 })
+  expect(await cache.get('doc/2')).toBeUndefined()
+  expect(cache.stats().entries).toBe(5)
+})
@@ -0,0 +1,159 @@
+/**
+ * # document cache
+ *
+ * Per-instance TTL cache for collections with `cacheLatencySeconds`. Entries
+ * are keyed by the requested path (e.g. `config/app` or `post/path=hello`) and
+ * remember the document they resolved to, so a write can drop every alias of
+ * that document. Records are cached unfiltered; access is applied on each read.
+ *
+ * A write on one instance can't reach the caches of other instances, so writes
+ * also bump a shared generation counter. Instances check the counter (at most
+ * every `pollSeconds`, and only while they're using the cache) and drop all
+ * their entries when it changes.
+ *
+ * Hit and miss counts are reported to the store on the same schedule.
+ */
+
+export interface CacheCounts {
+  hits: number
+  misses: number
+  invalidations: number // entries dropped because this instance wrote them
+  flushes: number // caches dropped because another instance wrote something
+}
+
+// Where the shared generation counter (and stats) live
+export interface CacheStore {
+  generation: () => Promise<number>
+  // resolves to the new generation
+  bump: () => Promise<number>
+  report: (counts: CacheCounts) => Promise<void>
+}
+
+export interface CacheOptions {
+  maxEntries?: number
+  pollSeconds?: number
+  reportSeconds?: number
+  now?: () => number
+}
+
+interface CacheEntry {
+  docPath: string
+  data: Record<string, unknown>
+  expiry: number
+  lastAccess: number
+}
+
+const emptyCounts = (): CacheCounts => ({
+  hits: 0,
+  misses: 0,
+  invalidations: 0,
+  flushes: 0,
+})
+
+export const createDocCache = (
+  store: CacheStore,
+  {
+    maxEntries = 100,
+    pollSeconds = 10,
+    reportSeconds = 60,
+    now = Date.now,
+  }: CacheOptions = {}
+) => {
+  const entries = new Map<string, CacheEntry>()
+  const totals = emptyCounts()
+  let unreported = emptyCounts()
+  let generation: number | undefined
+  let lastPoll = -Infinity
+  let lastReport = now()
+
+  const count = (key: keyof CacheCounts) => {
+    totals[key] += 1
+    unreported[key] += 1
+  }
+
+  // Evict the least recently used 20% when full, to avoid frequent evictions
+  const evict = () => {
+    if (entries.size < maxEntries) return
+    const oldest = [...entries.entries()]
+      .sort((a, b) => a[1].lastAccess - b[1].lastAccess)
+      .slice(0, Math.ceil(maxEntries * 0.2))
+    for (const [path] of oldest) {
+      entries.delete(path)
+    }
+  }
+
+  // Failing to reach the store just means entries live out their TTL
+  const poll = async () => {
+    if (now() - lastPoll < pollSeconds * 1000) return
+    lastPoll = now()
+    try {
+      const current = await store.generation()
+      if (generation !== undefined && current !== generation) {
+        entries.clear()
+        count('flushes')
+      }
+      generation = current
+      if (now() - lastReport >= reportSeconds * 1000) {
+        const counts = unreported
+        unreported = emptyCounts()
+        lastReport = now()
+        if (Object.values(counts).some(Boolean)) {
+          await store.report(counts)
+        }
+      }
+    } catch (e) {
+      // keep serving from the cache
+    }
+  }
+
+  return {
+    async get(path: string): Promise<Record<string, unknown> | undefined> {
+      await poll()
+      const entry = entries.get(path)
+      if (entry && entry.expiry > now()) {
+        entry.lastAccess = now()
+        count('hits')
+        return entry.data
+      }
+      entries.delete(path)
+      count('misses')
+      return undefined
+    },
+
+    set(
+      path: string,
+      docPath: string,
+      data: Record<string, unknown>,
+      seconds: number
+    ): void {
+      evict()
+      entries.set(path, {
+        docPath,
+        data,
+        expiry: now() + seconds * 1000,
+        lastAccess: now(),
+      })
+    },
+
+    // Drops a written document here, and tells other instances to drop theirs
+    async invalidate(docPath: string): Promise<void> {
+      for (const [path, entry] of entries) {
+        if (entry.docPath === docPath) {
+          entries.delete(path)
+          count('invalidations')
+        }
+      }
+      const next = await store.bump()
+      // our own write needn't flush our own cache
+      if (generation === next - 1) {
+        generation = next
+      }
+    },
+
+    stats(): CacheCounts & { entries: number } {
+      return { ...totals, entries: entries.size }
+    },
+  }
+}
+
+export type DocCache = ReturnType<typeof createDocCache>
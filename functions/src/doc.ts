@@ -8,7 +8,13 @@
 ## methods
 - `GET` obtains the current version of the document at `p`
 - `POST` | `PUT` | `PATCH` creates or updates the document at `p` with `data`
-- `DELETE` removes the document at `p`
+- `DELETE` removes the document at `p`, or moves it to the trash if the
+  collection is configured with `softDelete` (see `/trash`)
+
+## optimistic concurrency
+`GET` returns the document's `ETag` (see `etag.ts`). Send it back as `If-Match`
+with `PUT`, `PATCH`, or `DELETE` and the write will only happen if nobody else
+has changed the document in the meantime; otherwise the response is `412`.
 */
 
 import { onRequest } from 'firebase-functions/v2/https'
@@ -19,20 +25,35 @@ import * as functions from 'firebase-functions'
 import {
   optionsResponse,
   getUserRoles,
+  invalidateRoles,
+  invalidateRedirects,
+  logAudit,
+  rateLimited,
   AuthenticatedRequest,
+  CONTENT_RATE_LIMIT,
+  PRE_AUTH_RATE_LIMIT,
+  RateLimitConfig,
 } from './utilities'
 import { Response } from 'express'
 import {
   collectionPath,
+  forbiddenFields,
   getMethodAccess,
+  isCollaborator,
+  isRecordOwner,
+  ownershipApplies,
   REST_METHOD,
   ALL,
+  AccessFilterFunc,
 } from './collections/access'
 import { COLLECTIONS } from './collections'
-import { ROLES, UserRoles } from './collections/roles'
+import { inheritedRoles, ROLES, UserRoles } from './collections/roles'
 import { validate as schemaValidate } from 'tosijs-schema'
+import { docETag, etagFor, etagMatches } from './etag'
+import { saveVersion } from './version-history'
+import { createDocCache } from './doc-cache'
 
-interface SchemaError {
+export interface SchemaError {
   path: string
   message: string
 }
@@ -50,29 +71,63 @@ const validateWithSchema = (
 
 const compressResponse = compression()
 
-// TTL cache for documents with cacheLatencySeconds configured
-// Uses LRU eviction with a max size to prevent unbounded memory growth
-interface CacheEntry {
-  data: any
-  expiry: number
-  lastAccess: number
-}
-
-const MAX_CACHE_ENTRIES = 100 // Max cached documents per function instance
-const docCache = new Map<string, CacheEntry>()
-
-// Evict oldest entries when cache is full (LRU)
-function evictOldestCacheEntries(): void {
-  if (docCache.size <= MAX_CACHE_ENTRIES) return
-
-  // Sort by lastAccess and remove oldest entries
-  const entries = Array.from(docCache.entries())
-  entries.sort((a, b) => a[1].lastAccess - b[1].lastAccess)
+// Cached documents are from collections with cacheLatencySeconds configured
+// (see doc-cache.ts). Other instances learn of writes via a generation counter.
+const CACHE_GENERATION_PATH = 'config/cache-generation'
+
+const docCache = createDocCache({
+  async generation() {
+    const doc = await admin.firestore().doc(CACHE_GENERATION_PATH).get()
+    return (doc.data()?.generation as number) || 0
+  },
+  async bump() {
+    const ref = admin.firestore().doc(CACHE_GENERATION_PATH)
+    return admin.firestore().runTransaction(async (transaction) => {
+      const generation = ((await transaction.get(ref)).data()?.generation ||
+        0) as number
+      transaction.set(ref, { generation: generation + 1 })
+      return generation + 1
+    })
+  },
+  // Each function's instances add their counts to cache-stats/<function>
+  async report(counts) {
+    const { increment } = admin.firestore.FieldValue
+    await admin
+      .firestore()
+      .collection('cache-stats')
+      .doc(process.env.K_SERVICE || process.env.FUNCTION_TARGET || 'local')
+      .set(
+        {
+          hits: increment(counts.hits),
+          misses: increment(counts.misses),
+          invalidations: increment(counts.invalidations),
+          flushes: increment(counts.flushes),
+          _modified: new Date().toJSON(),
+        },
+        { merge: true }
+      )
+  },
+})
 
-  // Remove oldest 20% to avoid frequent evictions
-  const removeCount = Math.ceil(MAX_CACHE_ENTRIES * 0.2)
-  for (let i = 0; i < removeCount && i < entries.length; i++) {
-    docCache.delete(entries[i][0])
+// Call after writing (or deleting) a document, so that no instance keeps
+// serving the old version from its cache (or granting a role record's or API
+// key's old roles)
+export const invalidateCache = async (
+  ref: FirebaseFirestore.DocumentReference
+): Promise<void> => {
+  if (['role', 'api-key'].includes(collectionPath(ref.path))) {
+    await invalidateRoles()
+  }
+  if (collectionPath(ref.path) === 'redirect') {
+    invalidateRedirects()
+  }
+  if (!COLLECTIONS[collectionPath(ref.path)]?.cacheLatencySeconds) {
+    return
+  }
+  try {
+    await docCache.invalidate(ref.path)
+  } catch (e) {
+    functions.logger.warn(`Failed to invalidate cached ${ref.path}:`, e)
   }
 }
 
@@ -80,14 +135,12 @@ export type DocResult =
   | { ok: true; data: any }
   | { ok: false; reason: string; status: number }
 
-// Roles that can see detailed error messages
-const PRIVILEGED_ROLES: readonly string[] = [
-  ROLES.admin,
-  ROLES.developer,
-  ROLES.owner,
-]
+// Roles that can see detailed error messages: admin and every role above it
+const PRIVILEGED_ROLES: readonly string[] = Object.values(ROLES).filter(
+  (role) => inheritedRoles(role).includes(ROLES.admin)
+)
 
-const hasPrivilegedRole = (userRoles: UserRoles): boolean =>
+export const hasPrivilegedRole = (userRoles: UserRoles): boolean =>
   userRoles.roles.some((role) => PRIVILEGED_ROLES.includes(role))
 
 const opaqueError = (
@@ -106,10 +159,18 @@ type FirestoreQuery = FirebaseFirestore.Query
 type FirestoreRef = FirestoreDocRef | FirestoreQuery
 
 // Helper type guard for document references
-function isDocRef(ref: FirestoreRef): ref is FirestoreDocRef {
+export function isDocRef(ref: FirestoreRef): ref is FirestoreDocRef {
   return 'id' in ref && 'set' in ref
 }
 
+// Soft-deleted (trashed) documents are treated as if they don't exist
+export const isLive = (doc: FirebaseFirestore.DocumentSnapshot): boolean =>
+  doc.exists && doc.data()?._deleted !== true
+
+// How many matches a field=value lookup considers, so that trashed records
+// can't hide a live one
+const LOOKUP_LIMIT = 10
+
 export const getRef = async (
   path: string,
   isCollection = false
@@ -160,19 +221,14 @@ export const getRef = async (
       } else {
         const snapshot = await collRef
           .where(field, operator as FirebaseFirestore.WhereFilterOp, value)
-          .limit(1)
+          .limit(LOOKUP_LIMIT)
           .get()
-        let id: string | null = null
-        if (!snapshot.empty) {
-          snapshot.forEach((doc: FirebaseFirestore.QueryDocumentSnapshot) => {
-            id = doc.id
-          })
-        }
-        if (id === null) {
+        const found = snapshot.docs.find(isLive)
+        if (!found) {
           return new Error(`record not found ${path}`)
         }
 
-        ref = collRef.doc(id)
+        ref = collRef.doc(found.id)
       }
     }
   }
@@ -180,7 +236,7 @@ export const getRef = async (
   return ref as FirestoreRef
 }
 
-const isUnique = async (
+export const isUnique = async (
   path: string,
   field: string,
   value: unknown,
@@ -198,11 +254,11 @@ const isUnique = async (
   let duplicate = false
   const snapshot = await (ref as FirebaseFirestore.Query)
     .where(field, '==', value)
-    .limit(2)
+    .limit(LOOKUP_LIMIT)
     .get()
   if (!snapshot.empty) {
     snapshot.forEach((doc) => {
-      if (doc.id !== existing.id) {
+      if (doc.id !== existing.id && isLive(doc)) {
         duplicate = true
       }
     })
@@ -232,31 +288,30 @@ export const getDoc = async (
       return opaqueError(userRoles, 'access denied', 403)
     }
 
-    // Check cache if cacheLatencySeconds is configured
+    // Use the cache if cacheLatencySeconds is configured
     const cacheSeconds = config?.cacheLatencySeconds
-    if (cacheSeconds) {
-      const cached = docCache.get(path)
-      if (cached && cached.expiry > Date.now()) {
-        // Update last access time for LRU
-        cached.lastAccess = Date.now()
-        return { ok: true, data: cached.data }
-      }
-    }
+    let record = cacheSeconds ? await docCache.get(path) : undefined
 
-    const ref = await getRef(path)
-    if (ref instanceof Error) {
-      return opaqueError(userRoles, ref.message, 404)
-    }
-    if (!isDocRef(ref)) {
-      return opaqueError(userRoles, 'invalid path for document', 400)
-    }
+    if (!record) {
+      const ref = await getRef(path)
+      if (ref instanceof Error) {
+        return opaqueError(userRoles, ref.message, 404)
+      }
+      if (!isDocRef(ref)) {
+        return opaqueError(userRoles, 'invalid path for document', 400)
+      }
 
-    const doc = await ref.get()
-    if (!doc.exists) {
-      return { ok: false, reason: 'not found', status: 404 }
+      const doc = await ref.get()
+      if (!isLive(doc)) {
+        return { ok: false, reason: 'not found', status: 404 }
+      }
+      record = doc.data() as Record<string, unknown>
+      if (cacheSeconds) {
+        docCache.set(path, ref.path, record, cacheSeconds)
+      }
     }
 
-    let data = doc.data() as Record<string, unknown> | undefined
+    let data: Record<string, unknown> | undefined = record
     if (access === ALL) {
       data = { ...data, _path: path }
     } else if (typeof access === 'function') {
@@ -267,23 +322,190 @@ export const getDoc = async (
       data = { ...filtered, _path: path }
     }
 
-    // Store in cache if cacheLatencySeconds is configured
-    if (cacheSeconds) {
-      evictOldestCacheEntries()
-      const now = Date.now()
-      docCache.set(path, {
-        data,
-        expiry: now + cacheSeconds * 1000,
-        lastAccess: now,
-      })
-    }
-
     return { ok: true, data }
   } catch (error) {
     return opaqueError(userRoles, 'internal error', 500)
   }
 }
 
+// Keeps a field as it was (including absent) in an updated record
+const keepField = (
+  data: Record<string, unknown>,
+  existing: Record<string, unknown>,
+  field?: string
+): void => {
+  if (!field) {
+    return
+  }
+  if (field in existing) {
+    data[field] = existing[field]
+  } else {
+    delete data[field]
+  }
+}
+
+export type WriteResult =
+  | { ok: true; data?: Record<string, unknown> }
+  | { ok: false; reason: string; status: number; details?: SchemaError[] }
+
+// Everything a write has to pass before it is stored: existence rules for the
+// method, field-level write access, schema validation, the collection's
+// validate(), and unique fields.
+// Resolves to the record to store, or to no data for a (hard) DELETE.
+export const prepareWrite = async (
+  method: string,
+  path: string,
+  ref: FirestoreDocRef,
+  doc: FirebaseFirestore.DocumentSnapshot,
+  update: Record<string, unknown> | undefined,
+  access: typeof ALL | AccessFilterFunc,
+  userRoles: UserRoles
+): Promise<WriteResult> => {
+  const config = COLLECTIONS[collectionPath(path)]
+  const exists = isLive(doc)
+  const limitedToOwn = ownershipApplies(config, userRoles)
+  const notYours: WriteResult = {
+    ok: false,
+    reason: hasPrivilegedRole(userRoles)
+      ? `${path} belongs to another user`
+      : 'forbidden',
+    status: 403,
+  }
+
+  if (method === 'DELETE') {
+    if (!exists || access !== ALL) {
+      return { ok: false, reason: `no doc at ${path}`, status: 403 }
+    }
+    if (
+      limitedToOwn &&
+      !isCollaborator(
+        config,
+        doc.data() as Record<string, unknown>,
+        userRoles.uid
+      )
+    ) {
+      return notYours
+    }
+    if (!config.softDelete) {
+      return { ok: true }
+    }
+    const _deletedAt = new Date().toJSON()
+    return {
+      ok: true,
+      data: {
+        ...doc.data(),
+        _deleted: true,
+        _deletedBy: userRoles.uid || null,
+        _deletedAt,
+        _modified: _deletedAt,
+      },
+    }
+  }
+  // restoring is up to /trash, which only privileged roles may use
+  if (doc.exists && !exists && method === 'POST') {
+    return {
+      ok: false,
+      reason: `${path} is in the trash; restore it first`,
+      status: 409,
+    }
+  }
+  if (exists && method === 'POST') {
+    return {
+      ok: false,
+      reason: `document ${path} already exists`,
+      status: 403,
+    }
+  }
+  if (!exists && method !== 'POST') {
+    return {
+      ok: false,
+      reason: `cannot update non-existent document ${path}`,
+      status: 403,
+    }
+  }
+
+  const existing = (exists ? doc.data() : {}) as Record<string, unknown>
+  const _modified = new Date().toJSON()
+  const _created = (existing._created as string) || _modified
+  let data: Record<string, unknown> =
+    method === 'PATCH'
+      ? { ...existing, ...update, _created, _modified }
+      : { ...update, _created, _modified }
+
+  // Records belong to whoever created them (see ownerField)
+  const { ownerField, collaboratorsField } = config
+  let stamped: Record<string, unknown> = {}
+  if (ownerField && method === 'POST') {
+    if (userRoles.uid && (limitedToOwn || data[ownerField] === undefined)) {
+      data[ownerField] = userRoles.uid
+      stamped = { [ownerField]: userRoles.uid }
+    }
+  } else if (limitedToOwn) {
+    if (!isCollaborator(config, existing, userRoles.uid)) {
+      return notYours
+    }
+    keepField(data, existing, ownerField)
+    if (!isRecordOwner(config, existing, userRoles.uid)) {
+      keepField(data, existing, collaboratorsField)
+    }
+  }
+
+  // Restricted write access limits which fields a write may set (a new record
+  // starts empty, apart from the owner stamped above)
+  if (access !== ALL) {
+    const allowed = await access({ ...data }, userRoles)
+    const reason =
+      !allowed || allowed instanceof Error
+        ? allowed?.message || 'access denied'
+        : forbiddenFields(
+            method === 'POST' ? stamped : existing,
+            data,
+            allowed
+          ).join(', ')
+    if (reason) {
+      return {
+        ok: false,
+        reason: hasPrivilegedRole(userRoles)
+          ? `cannot change ${path}: ${reason}`
+          : 'forbidden',
+        status: 403,
+      }
+    }
+  }
+
+  // Schema validation (runs first if schema is defined)
+  if (config.schema) {
+    const { valid, errors } = validateWithSchema(data, config.schema)
+    if (!valid) {
+      return {
+        ok: false,
+        reason: 'schema validation failed',
+        status: 400,
+        details: errors,
+      }
+    }
+  }
+
+  // Custom validation (runs after schema validation)
+  if (config.validate) {
+    data = await config.validate(data, userRoles, existing)
+    if (data instanceof Error) {
+      return { ok: false, reason: 'validation failed', status: 400 }
+    }
+  }
+  for (const uniqueField of config.unique || []) {
+    if (!(await isUnique(path, uniqueField, data[uniqueField], ref))) {
+      return {
+        ok: false,
+        reason: `"${uniqueField}" is required to exist and be unique`,
+        status: 400,
+      }
+    }
+  }
+  delete data._path
+  return { ok: true, data }
+}
+
 // Legacy wrapper for backwards compatibility - returns data or undefined
 export const getDocData = async (
   req: AuthenticatedRequest,
@@ -294,11 +516,24 @@ export const getDocData = async (
   return result.ok ? result.data : undefined
 }
 
+const DOC_RATE_LIMIT: RateLimitConfig = { ...CONTENT_RATE_LIMIT, name: 'doc' }
+
 export const doc = onRequest({}, async (req, res) => {
-  if (optionsResponse(req, res, ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'])) {
+  if (
+    optionsResponse(
+      req,
+      res,
+      ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+      PRE_AUTH_RATE_LIMIT
+    )
+  ) {
     return
   }
+  res.set('Access-Control-Expose-Headers', 'ETag')
   const userRoles = await getUserRoles(req)
+  if (await rateLimited(req, res, userRoles, DOC_RATE_LIMIT)) {
+    return
+  }
 
   const path = req.method.match(/GET|DELETE/) ? req.query.p : req.body.p
 
@@ -330,6 +565,12 @@ export const doc = onRequest({}, async (req, res) => {
   )
 
   if (!access) {
+    await logAudit(userRoles, {
+      method: req.method,
+      path,
+      status: 403,
+      reason: 'forbidden',
+    })
     res.status(403).send('forbidden')
     return
   }
@@ -345,9 +586,54 @@ export const doc = onRequest({}, async (req, res) => {
   }
   const doc = await ref.get()
 
+  const ifMatch = req.headers['if-match']
+  if (ifMatch && req.method !== 'GET' && !etagMatches(ifMatch, docETag(doc))) {
+    res.status(412).send(`${path} has been modified`)
+    return
+  }
+
+  // Writes (or deletes, if data is undefined) the document. If-Match is
+  // re-checked inside the transaction so a concurrent write between the check
+  // above and this one can't be silently overwritten.
+  const writeDoc = async (data?: Record<string, unknown>): Promise<boolean> => {
+    let before: Record<string, unknown> | undefined
+    const written = await admin
+      .firestore()
+      .runTransaction(async (transaction) => {
+        const current = await transaction.get(ref)
+        if (ifMatch && !etagMatches(ifMatch, docETag(current))) {
+          return false
+        }
+        if (config.versioned) {
+          saveVersion(transaction, current)
+        }
+        if (data) {
+          transaction.set(ref, data)
+        } else {
+          transaction.delete(ref)
+        }
+        before = current.data()
+        return true
+      })
+    if (written) {
+      await invalidateCache(ref)
+      await logAudit(userRoles, {
+        method: req.method,
+        path: ref.path,
+        before,
+        after: data,
+      })
+    }
+    return written
+  }
+
   switch (req.method) {
     case 'GET':
-      if (doc.exists) {
+      if (isLive(doc)) {
+        const etag = docETag(doc)
+        if (etag) {
+          res.set('ETag', etag)
+        }
         let data = doc.data() as Record<string, unknown> | undefined
         if (access === ALL) {
           data = { ...data, _path: path }
@@ -365,77 +651,59 @@ export const doc = onRequest({}, async (req, res) => {
       return
 
     case 'DELETE':
-      if (doc.exists && access === ALL) {
-        try {
-          await ref.delete()
-          res.status(200).send('')
-        } catch (e) {
-          functions.logger.error(`Error deleting ${path}:`, e)
-          res.status(500).send('Delete failed')
-        }
-      } else {
-        res.status(403).send(`no doc at ${path}`)
-      }
-      break
     case 'POST':
     case 'PUT':
-    case 'PATCH':
-      if (doc.exists && req.method === 'POST') {
-        res.status(403).send(`document ${path} already exists`)
-      } else if (!doc.exists && req.method !== 'POST') {
-        res.status(403).send(`cannot update non-existent document ${path}`)
-      } else {
-        const existing = (doc.exists ? doc.data() : {}) as Record<
-          string,
-          unknown
-        >
-        const _modified = new Date().toJSON()
-        const _created = (existing._created as string) || _modified
-        let data =
-          req.method === 'PATCH'
-            ? { ...existing, ...req.body.data, _created, _modified }
-            : { ...req.body.data, _created, _modified }
-
-        // Schema validation (runs first if schema is defined)
-        if (config.schema) {
-          const { valid, errors } = validateWithSchema(data, config.schema)
-          if (!valid) {
-            res.status(400).json({
-              error: 'schema validation failed',
-              details: errors,
-            })
-            return
-          }
-        }
-
-        // Custom validation (runs after schema validation)
-        if (config.validate) {
-          data = await config.validate(data, userRoles, existing)
-          if (data instanceof Error) {
-            res.status(400).send('validation failed')
-            return
-          }
+    case 'PATCH': {
+      const prepared = await prepareWrite(
+        req.method,
+        path,
+        ref,
+        doc,
+        req.body.data,
+        access,
+        userRoles
+      )
+      if (!prepared.ok) {
+        if (prepared.status === 403) {
+          await logAudit(userRoles, {
+            method: req.method,
+            path: ref.path,
+            status: 403,
+            reason: prepared.reason,
+          })
         }
-        for (const uniqueField of config.unique || []) {
-          if (!(await isUnique(path, uniqueField, data[uniqueField], ref))) {
-            res
-              .status(400)
-              .send(`"${uniqueField}" is required to exist and be unique`)
-            return
-          }
+        if (prepared.details) {
+          res
+            .status(prepared.status)
+            .json({ error: prepared.reason, details: prepared.details })
+        } else {
+          res.status(prepared.status).send(prepared.reason)
         }
-        try {
-          delete data._path
-          await ref.set(data)
+        return
+      }
+      const { data } = prepared
+      try {
+        if (!(await writeDoc(data))) {
+          res.status(412).send(`${path} has been modified`)
+        } else if (req.method === 'DELETE' || !data) {
+          res.status(200).send('')
+        } else {
+          res.set('ETag', etagFor(data._modified as string))
           res
             .status(200)
             .send(`${req.method === 'POST' ? 'created' : 'updated'} ${path}`)
-        } catch (e) {
+        }
+      } catch (e) {
+        if (req.method !== 'DELETE') {
           functions.logger.error(`Error saving ${path}:`, e)
           res.status(500).send('Save failed')
+        } else {
+          functions.logger.error(`Error deleting ${path}:`, e)
+          res.status(500).send('Delete failed')
         }
       }
       break
+    }
     default:
       res.status(400).send('bad request type')
   }
@@ -7,65 +7,254 @@
 
 ## Optional Parameters
 
-- `c` (count) limits the number of records returned (default is 10)
+- `c` (count) limits the number of records returned (default is 10, and at
+  most 1000)
 - `f` (fields) comma-delimited list of fields to be returned
 - `o` (order) is the sort field, e.g. `date` or `date(desc)`
+- `q` (query) a comma-delimited list of queries, e.g. `date>=2024-01-01` or
+  `tags array-contains-any news|release` (see `query.ts`), on fields listed in
+  the collection's `queryableFields`
 
-## TODO
-- `q` (query) a comma-delimited list of queries; will return a
-  useful error if a required index is missing
+- `mine=true` lists only records the user owns or collaborates on, for
+  collections with an `ownerField` (see `collections/access.ts`)
+
+- `cursor` asks for a page of results: `first`, or the `next` or `prev` token
+  from an earlier page (with the same `o`)
+
+Without `cursor` the response is an array of records. With it, the response is
+`{ records, next, prev }`, where `next` and `prev` are only present if there are
+more (visible) records in that direction.
+
+Records hidden by `list` access are skipped rather than counted, so pages are
+only short at the end of the results, or when a page has looked through 1000
+records without filling up; then `next` (or `prev`) continues from the last
+record it looked at.
+
+If Firestore needs a composite index for the query, the response is a `400`
+with the index definition to add to `firestore.indexes.json`.
 */
 
+import * as functions from 'firebase-functions'
 import { onRequest } from 'firebase-functions/v2/https'
+import * as admin from 'firebase-admin'
 import compression from 'compression'
 
 import {
   optionsResponse,
   getUserRoles,
+  rateLimited,
   AuthenticatedRequest,
+  CONTENT_RATE_LIMIT,
+  PRE_AUTH_RATE_LIMIT,
+  RateLimitConfig,
 } from './utilities'
-import { collectionPath, getMethodAccess, ALL } from './collections/access'
+import {
+  collectionPath,
+  getMethodAccess,
+  ALL,
+  AccessFilterFunc,
+  CollectionConfig,
+} from './collections/access'
 import { COLLECTIONS } from './collections'
+import { UserRoles } from './collections/roles'
 import { getRef } from './doc'
 import { Response } from 'express'
+import {
+  Cursor,
+  decodeCursor,
+  encodeCursor,
+  indexDefinition,
+  parseOrder,
+  parseQuery,
+  QueryClause,
+  QueryFilter,
+} from './query'
 
 const compressResponse = compression()
 
-export async function getRecords(
+// Firestore's gRPC status for a query that needs a missing index
+const FAILED_PRECONDITION = 9
+
+// The clause implied by a `field=value` path, as getRef applies it
+const pathClause = (path: string): QueryClause[] => {
+  const specifier = path.split('/').pop() as string
+  if (!specifier.includes('=')) {
+    return []
+  }
+  const [field, value] = specifier.split('=', 2)
+  const isTagField =
+    COLLECTIONS[collectionPath(path)]?.tagFields?.includes(field)
+  return [{ field, operator: isTagField ? 'array-contains' : '==', value }]
+}
+
+// Records the user owns or collaborates on
+const ownClause = (config: CollectionConfig, uid: string): QueryFilter => {
+  const owned: QueryClause = {
+    field: config.ownerField as string,
+    operator: '==',
+    value: uid,
+  }
+  return config.collaboratorsField
+    ? [
+        owned,
+        {
+          field: config.collaboratorsField,
+          operator: 'array-contains',
+          value: uid,
+        },
+      ]
+    : owned
+}
+
+const isMissingIndex = (error: unknown): boolean =>
+  (error as { code?: number }).code === FAILED_PRECONDITION &&
+  String((error as Error).message).includes('index')
+
+type Data = Record<string, unknown>
+
+// Decides whether (and how) a record appears in a list
+type ListFilter = (record: Data) => Promise<Data | Error | undefined>
+
+export interface Page {
+  records: Data[]
+  next?: string
+  prev?: string
+}
+
+// The most records one page will scan through looking for visible ones (and
+// so the most a page can hold)
+export const MAX_SCAN = 1000
+
+// The fewest records fetched at a time while filling a page
+const MIN_BATCH = 50
+
+// Fetches a page of up to `limit` visible records. Records hidden by `filter`
+// are skipped (and more are fetched to fill the page), and cursors are only
+// given for pages that have visible records, so paging reveals nothing about
+// hidden ones, except that a page that gives up after MAX_SCAN records
+// continues from the last one it scanned.
+export async function getPage(
   path: string,
   limit: number,
   order = '',
-  fields = false as string[] | false
-): Promise<Record<string, unknown>[]> {
+  fields: string[] | false = false,
+  query: QueryFilter[] = [],
+  cursor?: Cursor,
+  filter?: ListFilter
+): Promise<Page> {
   const refResult = await getRef(path, true)
   if (refResult instanceof Error) {
-    return []
+    return { records: [] }
   }
-  let ref = refResult as FirebaseFirestore.Query
-  const records: Record<string, unknown>[] = []
-  const [, field, direction] = order.match(/^(\w+)(\(asc\)|\(desc\))?$/) || [
-    '',
-    '',
-  ]
+  const [field, descending] = parseOrder(order)
+  const backwards = cursor?.d === 'prev'
+  const direction = descending !== backwards ? 'desc' : 'asc'
 
+  let ref = refResult as FirebaseFirestore.Query
+  const { Filter } = admin.firestore
+  for (const clause of query) {
+    ref = Array.isArray(clause)
+      ? ref.where(
+          Filter.or(
+            ...clause.map(({ field, operator, value }) =>
+              Filter.where(field, operator, value)
+            )
+          )
+        )
+      : ref.where(clause.field, clause.operator, clause.value)
+  }
   if (field) {
-    ref = ref.orderBy(field, direction !== '(desc)' ? 'asc' : 'desc')
+    ref = ref.orderBy(field, direction)
+  }
+  ref = ref.orderBy(admin.firestore.FieldPath.documentId(), direction)
+  if (fields) {
+    ref = ref.select(...fields, '_deleted', ...(field ? [field] : []))
+  }
+  if (cursor) {
+    ref = ref.startAfter(...(field ? [cursor.v] : []), cursor.id)
   }
-  ref = ref.limit(limit)
-  const snapshot = await (fields ? ref.select(...fields).get() : ref.get())
 
   // Extract the base collection path (without any field=value query)
   const baseCollectionPath = collectionPath(path)
 
-  if (!snapshot.empty) {
-    snapshot.forEach((doc) => {
-      const _path = baseCollectionPath + '/' + doc.id
-      records.push({ ...doc.data(), _path })
+  const found: Array<{ record: Data; value: unknown; id: string }> = []
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined
+  let scanned = 0
+  let exhausted = false
+  // one more record than the page needs shows whether there's another page
+  const batchSize = Math.max(limit + 1, MIN_BATCH)
+  while (found.length <= limit && scanned < MAX_SCAN) {
+    const snapshot = await (last ? ref.startAfter(last) : ref)
+      .limit(batchSize)
+      .get()
+    scanned += snapshot.size
+    last = snapshot.docs[snapshot.size - 1]
+
+    const candidates = snapshot.docs
+      // skip soft-deleted records
+      .filter((doc) => doc.data()._deleted !== true)
+      .map((doc) => {
+        const data = doc.data()
+        const value = field ? data[field] : undefined
+        for (const key of ['_deleted', field]) {
+          if (fields && key && !fields.includes(key)) {
+            delete data[key]
+          }
+        }
+        const record = { ...data, _path: baseCollectionPath + '/' + doc.id }
+        return { record, value, id: doc.id }
+      })
+    const visible = filter
+      ? await Promise.all(candidates.map(({ record }) => filter(record)))
+      : candidates.map(({ record }) => record)
+    candidates.forEach((candidate, index) => {
+      const record = visible[index]
+      if (record && !(record instanceof Error)) {
+        found.push({ ...candidate, record })
+      }
     })
+    if (snapshot.size < batchSize) {
+      exhausted = true
+      break
+    }
+  }
+
+  const page = found.slice(0, limit)
+  if (backwards) {
+    page.reverse()
+  }
+  const first = page[0]
+  const final = page[page.length - 1]
+  // where the records in the direction we're going continue from, if they do
+  const onward =
+    found.length > limit
+      ? backwards
+        ? first
+        : final
+      : !exhausted && last
+      ? { value: field ? last.get(field) : undefined, id: last.id }
+      : undefined
+  const token = (
+    position: { value: unknown; id: string } | undefined,
+    d: Cursor['d']
+  ) =>
+    position
+      ? encodeCursor({ o: order, v: position.value, id: position.id, d })
+      : undefined
+  return {
+    records: page.map(({ record }) => record),
+    next: token(backwards ? final : onward, 'next'),
+    prev: token(backwards ? onward : cursor && first, 'prev'),
   }
-  return records
 }
 
+// Applies the user's list access to records
+const listFilter = (
+  access: typeof ALL | AccessFilterFunc,
+  userRoles: UserRoles
+): ListFilter | undefined =>
+  access === ALL ? undefined : (record) => access(record, userRoles)
+
 export const getDocs = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -83,28 +272,39 @@ export const getDocs = async (
     fields
   )
 
-  if (access === ALL) {
-    return await getRecords(path, limit, order, fields)
-  } else if (typeof access === 'function') {
-    let found = await getRecords(path, limit, order, fields)
-    found = await Promise.all(found.map((rec) => access(rec, userRoles)))
-    return found.filter((r) => !(r instanceof Error))
-  } else {
+  if (!access) {
     return []
   }
+  const { records } = await getPage(
+    path,
+    limit,
+    order,
+    fields,
+    [],
+    undefined,
+    listFilter(access, userRoles)
+  )
+  return records
+}
+
+const DOCS_RATE_LIMIT: RateLimitConfig = {
+  ...CONTENT_RATE_LIMIT,
+  name: 'docs',
 }
 
 export const docs = onRequest({}, async (req, res) => {
-  if (optionsResponse(req, res, ['GET'])) {
+  if (optionsResponse(req, res, ['GET'], PRE_AUTH_RATE_LIMIT)) {
     return
   }
 
   const path = req.query.p as string
-  const limit = Number(req.query.c) || 10
+  const limit = Math.min(Number(req.query.c) || 10, MAX_SCAN)
   const fields = req.query.f ? (req.query.f as string).split(',') : false
   const userRoles = await getUserRoles(req)
+  if (await rateLimited(req, res, userRoles, DOCS_RATE_LIMIT)) {
+    return
+  }
   const order = (req.query.o as string) || ''
-  // const query = req.body.q as string
   const access = getMethodAccess(
     COLLECTIONS,
     collectionPath(path),
@@ -113,18 +313,72 @@ export const docs = onRequest({}, async (req, res) => {
     fields
   )
 
-  if (access === ALL) {
-    const found = await getRecords(path, limit, order, fields)
-    compressResponse(req, res, () => {
-      res.json(found)
-    })
-  } else if (typeof access === 'function') {
-    let found = await getRecords(path, limit, order, fields)
-    found = await Promise.all(found.map((rec) => access(rec, userRoles)))
-    compressResponse(req, res, () => {
-      res.json(found.filter((r) => !(r instanceof Error)))
-    })
-  } else {
+  if (!access) {
     res.status(403).send()
+    return
   }
+
+  const config = COLLECTIONS[collectionPath(path)]
+  const query: QueryFilter[] | Error = req.query.q
+    ? parseQuery(req.query.q as string, config?.queryableFields)
+    : []
+  if (query instanceof Error) {
+    res.status(400).send(query.message)
+    return
+  }
+  if (req.query.mine === 'true') {
+    if (!config?.ownerField) {
+      res.status(400).send(`${collectionPath(path)} records have no owners`)
+      return
+    }
+    if (!userRoles.uid) {
+      res.status(401).send('sign in to list your own records')
+      return
+    }
+    query.push(ownClause(config, userRoles.uid))
+  }
+
+  const token = req.query.cursor as string | undefined
+  const cursor =
+    token && token !== 'first' ? decodeCursor(token, order) : undefined
+  if (cursor instanceof Error) {
+    res.status(400).send(cursor.message)
+    return
+  }
+
+  let page: Page
+  try {
+    page = await getPage(
+      path,
+      limit,
+      order,
+      fields,
+      query,
+      cursor,
+      listFilter(access, userRoles)
+    )
+  } catch (e) {
+    if (isMissingIndex(e)) {
+      const collectionGroup = collectionPath(path).split('/').pop() as string
+      const [field, descending] = parseOrder(order)
+      const backwards = cursor?.d === 'prev'
+      res.status(400).json({
+        error: 'this query needs an index',
+        index: indexDefinition(
+          collectionGroup,
+          [...pathClause(path), ...query.flat()],
+          field || (backwards ? '__name__' : ''),
+          descending !== backwards
+        ),
+      })
+    } else {
+      functions.logger.error(`Error listing ${path}:`, e)
+      res.status(400).send('bad query')
+    }
+    return
+  }
+
+  compressResponse(req, res, () => {
+    res.json(token ? page : page.records)
+  })
 })
@@ -1,7 +1,7 @@
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore - bun:test types intermittently available
 import { test, expect } from 'bun:test'
-import { DOCTYPE, elements, escapeHTMLAttribute } from './elements'
+import { DOCTYPE, elements, escapeHTML, escapeHTMLAttribute } from './elements'
 
 test('void elements', () => {
   expect(elements.input()).toBe('<input>')
@@ -62,3 +62,9 @@ test('html attributes are escapted properly', () => {
     '<button title="When this baby hits 88MPH you&apos;re going to see some &quot;serious shit&quot;"></button>'
   )
 })
+
+test('html text is escaped properly', () => {
+  expect(escapeHTML('<b>Tom & Jerry</b>')).toBe(
+    '&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;'
+  )
+})
@@ -35,6 +35,10 @@ export const escapeHTMLAttribute = (value: string): string => {
   return value.replace(/"/g, '&quot;').replace(/'/g, '&apos;')
 }
 
+export const escapeHTML = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
 const renderAttributes = (children: Array<AttributeMap | string>): string => {
   const attributeMaps = children.filter(
     (child) => typeof child !== 'string'
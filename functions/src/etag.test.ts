@@ -0,0 +1,40 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import { docETag, etagFor, etagMatches } from './etag'
+
+const snapshot = (data?: Record<string, unknown>, updateTime?: Date) =>
+  ({
+    exists: data !== undefined,
+    data: () => data,
+    updateTime: updateTime ? { toDate: () => updateTime } : undefined,
+  } as unknown as FirebaseFirestore.DocumentSnapshot)
+
+test('etag is the quoted _modified timestamp', () => {
+  expect(etagFor('2024-01-01T00:00:00.000Z')).toBe('"2024-01-01T00:00:00.000Z"')
+  expect(docETag(snapshot({ _modified: '2024-01-01T00:00:00.000Z' }))).toBe(
+    '"2024-01-01T00:00:00.000Z"'
+  )
+})
+
+test('etag falls back to update time', () => {
+  const updated = new Date('2024-02-03T04:05:06.000Z')
+  expect(docETag(snapshot({ title: 'no timestamps' }, updated))).toBe(
+    '"2024-02-03T04:05:06.000Z"'
+  )
+})
+
+test('missing documents have no etag', () => {
+  expect(docETag(snapshot())).toBeUndefined()
+})
+
+test('If-Match comparison', () => {
+  const etag = etagFor('2024-01-01T00:00:00.000Z')
+  expect(etagMatches(etag, etag)).toBe(true)
+  expect(etagMatches(`"stale", ${etag}`, etag)).toBe(true)
+  expect(etagMatches('"stale"', etag)).toBe(false)
+  expect(etagMatches(`W/${etag}`, etag)).toBe(false)
+  expect(etagMatches('*', etag)).toBe(true)
+  expect(etagMatches('*', undefined)).toBe(false)
+  expect(etagMatches(etag, undefined)).toBe(false)
+})
@@ -0,0 +1,41 @@
+/**
+ * # ETags for /doc
+ *
+ * A document's ETag is its quoted `_modified` timestamp, falling back to
+ * Firestore's update time for records that were written without one.
+ *
+ * `GET /doc` sends it as the `ETag` header and `PUT`, `PATCH`, and `DELETE`
+ * honor `If-Match`, replying `412` if the document changed in the meantime.
+ */
+
+type Snapshot = Pick<
+  FirebaseFirestore.DocumentSnapshot,
+  'exists' | 'data' | 'updateTime'
+>
+
+export const etagFor = (version: string): string => `"${version}"`
+
+export const docETag = (snapshot: Snapshot): string | undefined => {
+  if (!snapshot.exists) {
+    return undefined
+  }
+  const data = snapshot.data()
+  const version =
+    (data?._modified as string | undefined) ||
+    snapshot.updateTime?.toDate().toISOString()
+  return version ? etagFor(version) : undefined
+}
+
+// If-Match uses strong comparison, so weak tags (W/"...") never match
+export const etagMatches = (
+  ifMatch: string,
+  etag: string | undefined
+): boolean => {
+  if (etag === undefined) {
+    return false
+  }
+  return ifMatch
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag === etag)
+}
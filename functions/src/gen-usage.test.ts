@@ -0,0 +1,178 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import {
+  createMemoryUsageStore,
+  generateWithQuota,
+  geminiUsage,
+  mergeQuotas,
+  openaiUsage,
+  quotaFor,
+  usageReport,
+  GenProvider,
+  GenQuotas,
+} from './gen-usage'
+import { UserRoles } from './collections/roles'
+
+const quotas: GenQuotas = {
+  roles: {
+    author: { daily: 100, monthly: 150 },
+    editor: { daily: 1000 },
+    owner: false,
+  },
+  users: { 'vip-uid': { daily: 5000, monthly: 50000 } },
+}
+
+const user = (uid: string, roles: UserRoles['roles']): UserRoles => ({
+  name: uid,
+  contacts: [],
+  roles,
+  userIds: [uid],
+  uid,
+})
+
+const jane = user('jane-uid', ['author'])
+
+// Answers without calling anyone, using 60 tokens
+const calls: string[] = []
+const stub: GenProvider = async (modelId, prompt) => {
+  calls.push(prompt)
+  return {
+    result: `${modelId} says hi`,
+    usage: { promptTokens: 10, completionTokens: 50, totalTokens: 60 },
+  }
+}
+
+test('quotas are per user, else by the most privileged role', () => {
+  expect(quotaFor(quotas, jane)).toEqual({ daily: 100, monthly: 150 })
+  expect(quotaFor(quotas, user('ed', ['author', 'editor']))).toEqual({
+    daily: 1000,
+  })
+  // admins inherit the editor quota
+  expect(quotaFor(quotas, user('al', ['admin']))).toEqual({ daily: 1000 })
+  expect(quotaFor(quotas, user('vip-uid', ['author']))).toEqual({
+    daily: 5000,
+    monthly: 50000,
+  })
+  expect(quotaFor(quotas, user('olive', ['owner']))).toBe(false)
+  expect(quotaFor({ roles: { editor: {} } }, jane)).toEqual({
+    daily: 0,
+    monthly: 0,
+  })
+})
+
+test('configured quotas are merged over the defaults by role and user', () => {
+  expect(
+    mergeQuotas(quotas, {
+      roles: { editor: { daily: 2000 } },
+      users: { 'new-uid': false },
+    })
+  ).toEqual({
+    roles: {
+      author: { daily: 100, monthly: 150 },
+      editor: { daily: 2000 },
+      owner: false,
+    },
+    users: { 'vip-uid': { daily: 5000, monthly: 50000 }, 'new-uid': false },
+  })
+  expect(mergeQuotas(quotas)).toEqual(quotas)
+})
+
+test('provider usage is read from either response format', () => {
+  expect(geminiUsage({ promptTokenCount: 3, candidatesTokenCount: 4 })).toEqual(
+    { promptTokens: 3, completionTokens: 4, totalTokens: 7 }
+  )
+  expect(
+    openaiUsage({ prompt_tokens: 3, completion_tokens: 4, total_tokens: 9 })
+  ).toEqual({ promptTokens: 3, completionTokens: 4, totalTokens: 9 })
+  expect(geminiUsage(undefined).totalTokens).toBe(0)
+})
+
+test('calls are charged until the quota runs out', async () => {
+  const store = createMemoryUsageStore()
+  const now = new Date('2024-01-30T12:00:00.000Z')
+  const generate = (prompt: string, at = now) =>
+    generateWithQuota({
+      provider: stub,
+      store,
+      quotas,
+      userRoles: jane,
+      modelId: 'gemini-test',
+      prompt,
+      now: at,
+    })
+  calls.length = 0
+
+  const first = await generate('one')
+  expect(first.exceeded).toBe(false)
+  expect(first.quota.daily).toBe(40)
+  expect(first.quota.monthly).toBe(90)
+  if (!first.exceeded) {
+    expect(first.completion.result).toBe('gemini-test says hi')
+  }
+
+  // the call that crosses the quota is allowed to finish...
+  expect((await generate('two')).quota.daily).toBe(0)
+  // ...but the next one is refused without calling the provider
+  const refused = await generate('three')
+  expect(refused.exceeded).toBe(true)
+  expect(refused.quota).toEqual({
+    daily: 0,
+    monthly: 30,
+    reset: {
+      daily: '2024-01-31T00:00:00.000Z',
+      monthly: '2024-02-01T00:00:00.000Z',
+    },
+  })
+  expect(calls).toEqual(['one', 'two'])
+
+  // a new day resets the daily quota, but not the monthly one
+  const tomorrow = new Date('2024-01-31T00:00:00.000Z')
+  expect((await generate('four', tomorrow)).quota).toMatchObject({
+    daily: 40,
+    monthly: 0,
+  })
+  expect((await generate('five', tomorrow)).exceeded).toBe(true)
+  const february = new Date('2024-02-01T00:00:00.000Z')
+  expect((await generate('six', february)).exceeded).toBe(false)
+  expect(calls).toEqual(['one', 'two', 'four', 'six'])
+})
+
+test('usage is reported by user and by model', async () => {
+  const store = createMemoryUsageStore()
+  const now = new Date('2024-01-15T00:00:00.000Z')
+  const generate = (userRoles: UserRoles, modelId: string) =>
+    generateWithQuota({
+      provider: stub,
+      store,
+      quotas,
+      userRoles,
+      modelId,
+      prompt: 'hi',
+      now,
+    })
+  const ed = user('ed-uid', ['editor'])
+  await generate(jane, 'gemini-test')
+  await generate(ed, 'gemini-test')
+  await generate(ed, 'gpt-test')
+
+  const report = usageReport('month:2024-01', await store.list('month:2024-01'))
+  expect(report.total).toEqual({
+    requests: 3,
+    promptTokens: 30,
+    completionTokens: 150,
+    totalTokens: 180,
+  })
+  expect(report.users.map((record) => [record.uid, record.requests])).toEqual([
+    ['ed-uid', 2],
+    ['jane-uid', 1],
+  ])
+  expect(report.users[0].models['gpt-test'].totalTokens).toBe(60)
+  expect(
+    report.models.map(({ modelId, requests }) => [modelId, requests])
+  ).toEqual([
+    ['gemini-test', 2],
+    ['gpt-test', 1],
+  ])
+  expect((await store.list('day:2024-01-15')).length).toBe(2)
+})
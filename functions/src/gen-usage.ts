@@ -0,0 +1,313 @@
+/**
+ * # /gen quotas and usage
+ *
+ * Completions cost money, so every `/gen` call is charged to its user: the
+ * tokens the provider reports are added to the user's usage for the day and the
+ * month (UTC), per model. A call is refused while either is over the user's
+ * quota, which is set per user or per role in `GenQuotas` (see `gen.ts`, which
+ * keeps them in `config/gen-quota` and usage in the `gen-usage` collection).
+ *
+ * Quotas are checked before a call, since its cost isn't known until it
+ * returns, so the call that crosses a quota is allowed to finish. Calls made at
+ * the same time are all checked against the usage before any of them, so a
+ * burst can overshoot by several calls (as many as the /gen rate limit lets
+ * through).
+ */
+
+import { heldRoles, roleRank, UserRoles } from './collections/roles'
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface Completion {
+  result: string | object
+  usage: TokenUsage
+}
+
+// Calls a model (Gemini, OpenAI, or a stub in tests)
+export type GenProvider = (
+  modelId: string,
+  prompt: string,
+  schema?: any
+) => Promise<Completion>
+
+// Tokens a user may use per UTC day and month (omitted = unlimited)
+export interface Quota {
+  daily?: number
+  monthly?: number
+}
+
+export interface GenQuotas {
+  users?: { [uid: string]: Quota | false } // false = unlimited
+  roles?: { [role: string]: Quota | false }
+}
+
+// Used until config/gen-quota says otherwise
+export const DEFAULT_GEN_QUOTAS: GenQuotas = {
+  roles: {
+    author: { daily: 50000, monthly: 500000 },
+    editor: { daily: 200000, monthly: 2000000 },
+    admin: { daily: 1000000, monthly: 10000000 },
+  },
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number
+}
+
+export interface UsageRecord extends UsageTotals {
+  uid: string
+  name?: string
+  period: string // e.g. day:2024-01-31 or month:2024-01
+  models: { [modelId: string]: UsageTotals }
+}
+
+export interface UsageStore {
+  // Each user's usage in each period (undefined if they have none)
+  get: (
+    uid: string,
+    periods: string[]
+  ) => Promise<Array<UsageRecord | undefined>>
+  // Adds a completion's usage to each period
+  add: (
+    user: { uid: string; name?: string },
+    periods: string[],
+    modelId: string,
+    usage: TokenUsage
+  ) => Promise<void>
+  // Everyone's usage in a period
+  list: (period: string) => Promise<UsageRecord[]>
+}
+
+export interface QuotaState {
+  daily?: number // tokens left today (undefined = unlimited)
+  monthly?: number // tokens left this month
+  reset: { daily: string; monthly: string } // when each period ends
+}
+
+export type GenOutcome =
+  | { exceeded: true; quota: QuotaState }
+  | { exceeded: false; quota: QuotaState; completion: Completion }
+
+export const usagePeriods = (now = new Date()) => {
+  const iso = now.toISOString()
+  return {
+    daily: `day:${iso.slice(0, 10)}`,
+    monthly: `month:${iso.slice(0, 7)}`,
+  }
+}
+
+const periodResets = (now: Date) => ({
+  daily: new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+  ).toISOString(),
+  monthly: new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+  ).toISOString(),
+})
+
+// Configured quotas, over the defaults for roles and users they don't mention
+export const mergeQuotas = (
+  defaults: GenQuotas,
+  configured: GenQuotas = {}
+): GenQuotas => ({
+  users: { ...defaults.users, ...configured.users },
+  roles: { ...defaults.roles, ...configured.roles },
+})
+
+// A user's own quota, or else that of the most privileged role they hold that
+// has one; users with neither get no tokens
+export const quotaFor = (
+  quotas: GenQuotas,
+  userRoles: UserRoles
+): Quota | false => {
+  const own = userRoles.uid ? quotas.users?.[userRoles.uid] : undefined
+  if (own !== undefined) {
+    return own
+  }
+  const roles = quotas.roles || {}
+  const held = heldRoles(userRoles.roles)
+  const role = Object.keys(roles)
+    .filter((role) => held.includes(role))
+    .sort((a, b) => roleRank(b) - roleRank(a))[0]
+  return role === undefined ? { daily: 0, monthly: 0 } : roles[role]
+}
+
+export const quotaState = (
+  quota: Quota | false,
+  [daily, monthly]: Array<UsageRecord | undefined>,
+  now = new Date()
+): QuotaState => {
+  const left = (limit?: number, record?: UsageRecord) =>
+    limit === undefined
+      ? undefined
+      : Math.max(0, limit - (record?.totalTokens || 0))
+  return {
+    ...(quota === false
+      ? {}
+      : {
+          daily: left(quota.daily, daily),
+          monthly: left(quota.monthly, monthly),
+        }),
+    reset: periodResets(now),
+  }
+}
+
+export const quotaExceeded = ({ daily, monthly }: QuotaState): boolean =>
+  daily === 0 || monthly === 0
+
+// When the user may call again: the end of the longest exhausted period
+export const quotaRetryAfter = (
+  quota: QuotaState,
+  now = new Date()
+): number => {
+  const reset = quota.monthly === 0 ? quota.reset.monthly : quota.reset.daily
+  return Math.max(1, Math.ceil((Date.parse(reset) - now.getTime()) / 1000))
+}
+
+// Usage as reported by Gemini (response.usageMetadata)...
+export const geminiUsage = (metadata?: {
+  promptTokenCount?: number
+  candidatesTokenCount?: number
+  totalTokenCount?: number
+}): TokenUsage => {
+  const promptTokens = metadata?.promptTokenCount || 0
+  const completionTokens = metadata?.candidatesTokenCount || 0
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: metadata?.totalTokenCount || promptTokens + completionTokens,
+  }
+}
+
+// ...and OpenAI (response.usage)
+export const openaiUsage = (usage?: {
+  prompt_tokens?: number
+  completion_tokens?: number
+  total_tokens?: number
+}): TokenUsage => {
+  const promptTokens = usage?.prompt_tokens || 0
+  const completionTokens = usage?.completion_tokens || 0
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.total_tokens || promptTokens + completionTokens,
+  }
+}
+
+// Calls the provider if the user has quota left, and charges them for it
+export const generateWithQuota = async ({
+  provider,
+  store,
+  quotas,
+  userRoles,
+  modelId,
+  prompt,
+  schema,
+  now = new Date(),
+}: {
+  provider: GenProvider
+  store: UsageStore
+  quotas: GenQuotas
+  userRoles: UserRoles
+  modelId: string
+  prompt: string
+  schema?: any
+  now?: Date
+}): Promise<GenOutcome> => {
+  const uid = userRoles.uid as string
+  const { daily, monthly } = usagePeriods(now)
+  const quota = quotaFor(quotas, userRoles)
+  const before = quotaState(quota, await store.get(uid, [daily, monthly]), now)
+  if (quotaExceeded(before)) {
+    return { exceeded: true, quota: before }
+  }
+
+  const completion = await provider(modelId, prompt, schema)
+  await store.add(
+    { uid, name: userRoles.name },
+    [daily, monthly],
+    modelId,
+    completion.usage
+  )
+  const spend = (left?: number) =>
+    left === undefined
+      ? undefined
+      : Math.max(0, left - completion.usage.totalTokens)
+  return {
+    exceeded: false,
+    quota: {
+      ...before,
+      daily: spend(before.daily),
+      monthly: spend(before.monthly),
+    },
+    completion,
+  }
+}
+
+const noUsage = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+})
+
+const addTotals = (totals: UsageTotals, usage: UsageTotals) => {
+  totals.requests += usage.requests
+  totals.promptTokens += usage.promptTokens
+  totals.completionTokens += usage.completionTokens
+  totals.totalTokens += usage.totalTokens
+}
+
+// Usage in a period by user and by model, heaviest first
+export const usageReport = (period: string, records: UsageRecord[]) => {
+  const total = noUsage()
+  const models: { [modelId: string]: UsageTotals } = {}
+  for (const record of records) {
+    addTotals(total, record)
+    for (const [modelId, usage] of Object.entries(record.models || {})) {
+      models[modelId] = models[modelId] || noUsage()
+      addTotals(models[modelId], usage)
+    }
+  }
+  return {
+    period,
+    total,
+    users: [...records].sort((a, b) => b.totalTokens - a.totalTokens),
+    models: Object.entries(models)
+      .map(([modelId, usage]) => ({ modelId, ...usage }))
+      .sort((a, b) => b.totalTokens - a.totalTokens),
+  }
+}
+
+// Usage kept in memory (for tests)
+export const createMemoryUsageStore = (): UsageStore => {
+  const records = new Map<string, UsageRecord>()
+  return {
+    async get(uid, periods) {
+      return periods.map((period) => records.get(`${uid}@${period}`))
+    },
+    async add({ uid, name }, periods, modelId, usage) {
+      const used = { requests: 1, ...usage }
+      for (const period of periods) {
+        const record = records.get(`${uid}@${period}`) || {
+          uid,
+          name,
+          period,
+          ...noUsage(),
+          models: {},
+        }
+        addTotals(record, used)
+        record.models[modelId] = record.models[modelId] || noUsage()
+        addTotals(record.models[modelId], used)
+        records.set(`${uid}@${period}`, record)
+      }
+    },
+    async list(period) {
+      return [...records.values()].filter((record) => record.period === period)
+    },
+  }
+}
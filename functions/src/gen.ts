@@ -1,9 +1,34 @@
 import { onRequest } from 'firebase-functions/v2/https'
+import * as admin from 'firebase-admin'
 import * as functions from 'firebase-functions'
 import { defineSecret } from 'firebase-functions/params'
 import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai'
 import compression from 'compression'
-import { optionsResponse, getUserRoles } from './utilities'
+import {
+  optionsResponse,
+  getUserRoles,
+  rateLimited,
+  rateLimitStore,
+  PRE_AUTH_RATE_LIMIT,
+  RateLimitConfig,
+} from './utilities'
+import { hasRole, ROLES } from './collections/roles'
+import { unscoped, withinScope } from './collections/access'
+import {
+  Completion,
+  DEFAULT_GEN_QUOTAS,
+  GenProvider,
+  GenQuotas,
+  generateWithQuota,
+  geminiUsage,
+  mergeQuotas,
+  openaiUsage,
+  quotaRetryAfter,
+  usagePeriods,
+  usageReport,
+  UsageRecord,
+  UsageStore,
+} from './gen-usage'
 import { validate as schemaValidate } from 'tosijs-schema'
 
 const geminiApiKey = defineSecret('gemini-api-key')
@@ -67,7 +92,7 @@ const geminiCompletion = async (
   model: string,
   content: string,
   schema?: any
-): Promise<string | object> => {
+): Promise<Completion> => {
   try {
     const genAI = new GoogleGenerativeAI(apiKey)
 
@@ -82,12 +107,18 @@ const geminiCompletion = async (
       })
       const result = await gemini.generateContent([content])
       const text = result.response.text()
-      return JSON.parse(text)
+      return {
+        result: JSON.parse(text),
+        usage: geminiUsage(result.response.usageMetadata),
+      }
     } else {
       // Regular text output
       const gemini = genAI.getGenerativeModel({ model })
       const result = await gemini.generateContent([content])
-      return result.response.text()
+      return {
+        result: result.response.text(),
+        usage: geminiUsage(result.response.usageMetadata),
+      }
     }
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e)
@@ -100,7 +131,7 @@ const chatgptCompletion = async (
   model: string,
   content: string,
   schema?: any
-): Promise<string | object> => {
+): Promise<Completion> => {
   const url = 'https://api.openai.com/v1/chat/completions'
 
   const body: any = {
@@ -140,11 +171,85 @@ const chatgptCompletion = async (
 
   const result = await response.json()
   const text = result.choices[0].message.content
+  const usage = openaiUsage(result.usage)
 
   if (schema) {
-    return JSON.parse(text)
+    return { result: JSON.parse(text), usage }
   }
-  return text
+  return { result: text, usage }
+}
+
+// Completions cost money, so they're limited per user per hour, counted across
+// all instances
+const GEN_RATE_LIMIT: RateLimitConfig = {
+  name: 'gen',
+  windowMs: 60 * 60 * 1000,
+  maxRequests: 0,
+  roles: {
+    author: 30,
+    editor: 100,
+    admin: 300,
+  },
+  store: rateLimitStore,
+}
+
+// Quotas (see gen-usage.ts) are set by config/gen-quota, e.g.
+// { roles: { author: { daily: 50000, monthly: 500000 } },
+//   users: { <uid>: { monthly: 5000000 } } }
+const GEN_QUOTA_PATH = 'config/gen-quota'
+const GEN_USAGE = 'gen-usage'
+
+const getQuotas = async (): Promise<GenQuotas> => {
+  const doc = await admin.firestore().doc(GEN_QUOTA_PATH).get()
+  return mergeQuotas(DEFAULT_GEN_QUOTAS, doc.data())
+}
+
+// Usage is kept in gen-usage records named <uid>@<period>
+const usageRef = (uid: string, period: string) =>
+  admin
+    .firestore()
+    .collection(GEN_USAGE)
+    .doc(`${uid.replace(/\//g, '_')}@${period}`)
+
+const usageStore: UsageStore = {
+  async get(uid, periods) {
+    const snapshots = await admin
+      .firestore()
+      .getAll(...periods.map((period) => usageRef(uid, period)))
+    return snapshots.map((doc) => doc.data() as UsageRecord | undefined)
+  },
+  async add({ uid, name }, periods, modelId, usage) {
+    const increment = admin.firestore.FieldValue.increment
+    const totals = {
+      requests: increment(1),
+      promptTokens: increment(usage.promptTokens),
+      completionTokens: increment(usage.completionTokens),
+      totalTokens: increment(usage.totalTokens),
+    }
+    const batch = admin.firestore().batch()
+    for (const period of periods) {
+      batch.set(
+        usageRef(uid, period),
+        {
+          uid,
+          ...(name ? { name } : {}),
+          period,
+          ...totals,
+          models: { [modelId]: totals },
+        },
+        { merge: true }
+      )
+    }
+    await batch.commit()
+  },
+  async list(period) {
+    const snapshot = await admin
+      .firestore()
+      .collection(GEN_USAGE)
+      .where('period', '==', period)
+      .get()
+    return snapshot.docs.map((doc) => doc.data() as UsageRecord)
+  },
 }
 
 interface GenParams {
@@ -156,16 +261,44 @@ interface GenParams {
 export const gen = onRequest(
   { secrets: [geminiApiKey, chatgptApiKey] },
   async (req, res) => {
-    if (optionsResponse(req, res, ['GET', 'POST'])) {
+    if (optionsResponse(req, res, ['GET', 'POST'], PRE_AUTH_RATE_LIMIT)) {
       return
     }
 
     const userRoles = await getUserRoles(req)
 
-    if (userRoles.roles.filter((role) => role !== 'public').length === 0) {
+    if (req.path.split('/').filter(Boolean)[0] === 'usage') {
+      if (
+        !hasRole(userRoles, ROLES.admin) ||
+        !withinScope(userRoles, 'gen-usage', 'LIST')
+      ) {
+        res.status(403).send('forbidden')
+        return
+      }
+      const period =
+        (req.query.period as string | undefined) || usagePeriods().monthly
+      try {
+        const report = usageReport(period, await usageStore.list(period))
+        compressResponse(req, res, () => {
+          res.json(report)
+        })
+      } catch (e) {
+        functions.logger.error('Failed to report usage:', e)
+        res.status(500).send('internal error')
+      }
+      return
+    }
+
+    if (
+      userRoles.roles.filter((role) => role !== 'public').length === 0 ||
+      !unscoped(userRoles)
+    ) {
       res.status(403).send('forbidden')
       return
     }
+    if (await rateLimited(req, res, userRoles, GEN_RATE_LIMIT)) {
+      return
+    }
 
     const { query, body } = req
     const source: GenParams = req.method === 'GET' ? query : body
@@ -180,7 +313,7 @@ export const gen = onRequest(
     }
 
     try {
-      let result: string | object
+      let provider: GenProvider
 
       if (modelId.startsWith('gemini-')) {
         const apiKey = geminiApiKey.value()
@@ -192,7 +325,8 @@ export const gen = onRequest(
             )
           return
         }
-        result = await geminiCompletion(apiKey, modelId, prompt, schema)
+        provider = (model, content, schema) =>
+          geminiCompletion(apiKey, model, content, schema)
       } else if (modelId.startsWith('gpt-')) {
         const apiKey = chatgptApiKey.value()
         if (!apiKey) {
@@ -203,12 +337,33 @@ export const gen = onRequest(
             )
           return
         }
-        result = await chatgptCompletion(apiKey, modelId, prompt, schema)
+        provider = (model, content, schema) =>
+          chatgptCompletion(apiKey, model, content, schema)
       } else {
         res.status(400).send('unrecognized modelId')
         return
       }
 
+      const outcome = await generateWithQuota({
+        provider,
+        store: usageStore,
+        quotas: await getQuotas(),
+        userRoles,
+        modelId,
+        prompt,
+        schema,
+      })
+      if (outcome.exceeded) {
+        res.set('Retry-After', String(quotaRetryAfter(outcome.quota)))
+        res.status(429).json({
+          error: 'quota exceeded',
+          quota: outcome.quota,
+        })
+        return
+      }
+      const { quota, completion } = outcome
+      const { result, usage } = completion
+
       // If schema was provided, validate the response
       if (schema && typeof result === 'object') {
         const errors: Array<{ path: string; message: string }> = []
@@ -223,6 +378,8 @@ export const gen = onRequest(
             data: result,
             valid,
             ...(errors.length > 0 ? { errors } : {}),
+            usage,
+            quota,
           })
         })
       } else {
@@ -232,6 +389,8 @@ export const gen = onRequest(
             modelId,
             prompt,
             text: result as string,
+            usage,
+            quota,
           })
         })
       }
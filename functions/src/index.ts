@@ -24,10 +24,17 @@ export const helloWorld = onRequest((request, response) => {
 import './collections/module'
 import './collections/config'
 import './collections/role'
+import './collections/cache-stats'
+import './collections/webhook'
+import './collections/audit-log'
+import './collections/invite'
+import './collections/api-key'
+import './collections/redirect'
 import './blog'
 import './page'
 
 export { doc } from './doc'
+export { batch } from './batch'
 export { docs } from './docs'
 // gen is exported separately - see bottom of file
 export { hello } from './hello'
@@ -38,5 +45,11 @@ export { user } from './user'
 export { esm } from './esm'
 export { cachedQuery } from './cached-query'
 export { stored } from './stored'
+export { versions } from './versions'
+export { watch } from './watch'
+export { access } from './access'
+export { invite } from './invite'
+export { trash, purgeTrash } from './trash'
+export { webhookTriggers, retryWebhooks } from './webhooks'
 
 export { gen } from './gen'
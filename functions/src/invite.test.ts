@@ -0,0 +1,66 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import { Invite, inviteStatus } from '../shared/invite'
+import { COLLECTIONS } from './collections'
+import { getMethodAccess, AccessFilterFunc } from './collections/access'
+import { UserRoles } from './collections/roles'
+import './collections/invite'
+
+const invite: Invite = {
+  name: 'Jane',
+  roles: ['author'],
+  tokenHash: 'hash',
+  expires: '2024-01-08T00:00:00.000Z',
+  invitedBy: 'admin-uid',
+}
+
+test('invitations are open until they expire', () => {
+  expect(inviteStatus(invite, new Date('2024-01-07T23:59:59.000Z'))).toBe(
+    'open'
+  )
+  expect(inviteStatus(invite, new Date('2024-01-08T00:00:00.000Z'))).toBe(
+    'expired'
+  )
+})
+
+test('accepted and revoked invitations are closed', () => {
+  const now = new Date('2024-01-01T00:00:00.000Z')
+  expect(inviteStatus({ ...invite, revoked: true }, now)).toBe('revoked')
+  expect(
+    inviteStatus(
+      { ...invite, acceptedBy: 'jane-uid', accepted: '2024-01-02' },
+      now
+    )
+  ).toBe('accepted')
+})
+
+test('admins can list invitations, without their token hashes', async () => {
+  const admin: UserRoles = {
+    name: 'Admin',
+    contacts: [],
+    roles: ['admin'],
+    userIds: ['admin-uid'],
+  }
+  const list = getMethodAccess(COLLECTIONS, 'invite', 'LIST', admin)
+  expect(typeof list).toBe('function')
+  const listed = await (list as AccessFilterFunc)({
+    ...invite,
+    _path: 'invite/abc',
+    _created: '2024-01-01T00:00:00.000Z',
+  })
+  expect(listed).toEqual({
+    _path: 'invite/abc',
+    name: 'Jane',
+    roles: ['author'],
+    expires: '2024-01-08T00:00:00.000Z',
+    invitedBy: 'admin-uid',
+    _created: '2024-01-01T00:00:00.000Z',
+  })
+  expect(
+    getMethodAccess(COLLECTIONS, 'invite', 'LIST', {
+      ...admin,
+      roles: ['editor'],
+    })
+  ).toBeUndefined()
+})
@@ -0,0 +1,310 @@
+/**
+# /invite endpoint
+
+Invitations that assign roles to whoever accepts them, so onboarding an author
+doesn't mean typing their email into the role manager. Invitations are stored
+in the `invite` collection (see `collections/invite.ts`) with a hash of their
+token, so the token itself only ever exists in the invitation link.
+
+## methods
+- `POST /invite` (admins) creates an invitation. The body is
+  `{ name, roles, roleId?, days? }`: who it's for, the roles it grants (only
+  roles the admin holds), an existing role record to add the invitee to, and
+  how many days the link lasts (default 7). The response is
+  `{ invite, token, link }`; the link is `/invite/<token>`.
+- `GET /invite/<token>` describes an invitation (`name`, `roles`, `expires`,
+  and `status`: `open`, `accepted`, `revoked`, or `expired`) so the invitee
+  can see what they're accepting.
+- `POST /invite/<token>` (signed in) accepts an open invitation. The user's uid
+  is added to the invitation's role record if it names one, or else to the
+  user's own role record (which gains the roles), or else to a new role record.
+  Invitations can only be accepted once.
+- `DELETE /invite?id=<id>` (admins) revokes an invitation.
+
+Admins list invitations through `/docs?p=invite`.
+*/
+
+import { onRequest } from 'firebase-functions/v2/https'
+import * as admin from 'firebase-admin'
+import * as functions from 'firebase-functions'
+import compression from 'compression'
+import crypto from 'crypto'
+import { Response } from 'express'
+
+import {
+  optionsResponse,
+  getUserRoles,
+  getUser,
+  invalidateRoles,
+  logAudit,
+  createLinkToken,
+  timestamp,
+  AuthenticatedRequest,
+} from './utilities'
+import { hasRole, mayGrant, ROLES, UserRoles } from './collections/roles'
+import { withinScope, REST_METHOD } from './collections/access'
+import { Invite, inviteStatus } from '../shared/invite'
+
+const compressResponse = compression()
+
+const INVITE = 'invite'
+const ROLE = 'role'
+const DEFAULT_DAYS = 7
+const MAX_DAYS = 30
+
+type Data = Record<string, unknown>
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex')
+
+// An invitation without its token hash
+const describe = (invite: Invite): Data => {
+  const described: Data = { ...invite, status: inviteStatus(invite) }
+  delete described.tokenHash
+  return described
+}
+
+const findInvite = async (
+  token: string
+): Promise<FirebaseFirestore.QueryDocumentSnapshot | undefined> => {
+  const snapshot = await admin
+    .firestore()
+    .collection(INVITE)
+    .where('tokenHash', '==', hashToken(token))
+    .limit(1)
+    .get()
+  return snapshot.docs[0]
+}
+
+const create = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  userRoles: UserRoles
+) => {
+  const { name, roles, roleId } = req.body || {}
+  const days = Math.min(Number(req.body?.days) || DEFAULT_DAYS, MAX_DAYS)
+  if (typeof name !== 'string' || !name.trim()) {
+    res.status(400).send('name is required')
+    return
+  }
+  if (!Array.isArray(roles) || roles.some((role) => typeof role !== 'string')) {
+    res.status(400).send('roles must be a list of roles')
+    return
+  }
+  if (!mayGrant(userRoles, roles)) {
+    await logAudit(userRoles, {
+      method: req.method,
+      path: INVITE,
+      status: 403,
+      reason: `may not grant ${roles.join(', ')}`,
+    })
+    res.status(403).send('you may only grant roles you hold')
+    return
+  }
+  if (roleId !== undefined) {
+    const role = await admin.firestore().collection(ROLE).doc(roleId).get()
+    if (!role.exists) {
+      res.status(404).send(`no role ${roleId}`)
+      return
+    }
+  }
+
+  const { token, expires } = createLinkToken(days)
+  const now = timestamp()
+  const invite: Invite = {
+    name: name.trim(),
+    roles,
+    ...(roleId ? { roleId } : {}),
+    tokenHash: hashToken(token),
+    expires,
+    invitedBy: userRoles.uid as string,
+    _created: now,
+    _modified: now,
+  }
+  const ref = await admin.firestore().collection(INVITE).add(invite)
+  await logAudit(userRoles, {
+    method: req.method,
+    path: ref.path,
+    after: invite,
+  })
+  compressResponse(req, res, () => {
+    res.status(201).json({
+      invite: { ...describe(invite), _id: ref.id, _path: ref.path },
+      token,
+      link: `/invite/${token}`,
+    })
+  })
+}
+
+const accept = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  token: string
+) => {
+  const user = await getUser(req)
+  if (!user) {
+    res.status(401).send('sign in to accept an invitation')
+    return
+  }
+  const found = await findInvite(token)
+  if (!found) {
+    res.status(404).send('no such invitation')
+    return
+  }
+
+  const db = admin.firestore()
+  const outcome = await db.runTransaction(async (transaction) => {
+    const invite = (await transaction.get(found.ref)).data() as Invite
+    const status = inviteStatus(invite)
+    if (status !== 'open') {
+      return new Error(`this invitation has been ${status}`)
+    }
+
+    const [ownRole] = invite.roleId
+      ? []
+      : (
+          await transaction.get(
+            db.collection(ROLE).where('userIds', 'array-contains', user.uid)
+          )
+        ).docs
+    const roleRef = invite.roleId
+      ? db.collection(ROLE).doc(invite.roleId)
+      : ownRole?.ref || db.collection(ROLE).doc()
+    const before = (await transaction.get(roleRef)).data()
+    if (invite.roleId && !before) {
+      return new Error('the role this invitation was for no longer exists')
+    }
+
+    const now = timestamp()
+    const after: Data = before
+      ? {
+          ...before,
+          roles: [...new Set([...(before.roles || []), ...invite.roles])],
+          userIds: [...new Set([...(before.userIds || []), user.uid])],
+          _modified: now,
+        }
+      : {
+          name: user.name || user.email || invite.name,
+          contacts: user.email ? [{ type: 'email', value: user.email }] : [],
+          roles: invite.roles,
+          userIds: [user.uid],
+          _created: now,
+          _modified: now,
+        }
+    transaction.set(roleRef, after)
+    transaction.update(found.ref, {
+      acceptedBy: user.uid,
+      accepted: now,
+      _modified: now,
+    })
+    return { roleRef, before, after }
+  })
+
+  if (outcome instanceof Error) {
+    res.status(410).send(outcome.message)
+    return
+  }
+  const { roleRef, before, after } = outcome
+  await invalidateRoles()
+  const userRoles: UserRoles = {
+    _id: roleRef.id,
+    name: after.name as string,
+    contacts: [],
+    roles: after.roles as UserRoles['roles'],
+    userIds: after.userIds as string[],
+    uid: user.uid,
+  }
+  await logAudit(userRoles, {
+    method: req.method,
+    path: roleRef.path,
+    before,
+    after,
+    reason: `accepted ${found.ref.path}`,
+  })
+  compressResponse(req, res, () => {
+    res.json({ roleId: roleRef.id, roles: userRoles.roles })
+  })
+}
+
+const revoke = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  userRoles: UserRoles,
+  id: string
+) => {
+  const ref = admin.firestore().collection(INVITE).doc(id)
+  const doc = await ref.get()
+  const invite = doc.data() as Invite | undefined
+  if (!invite) {
+    res.status(404).send('no such invitation')
+    return
+  }
+  if (inviteStatus(invite) === 'accepted') {
+    res.status(409).send('this invitation has already been accepted')
+    return
+  }
+  const after = { ...invite, revoked: true, _modified: timestamp() }
+  await ref.set(after)
+  await logAudit(userRoles, {
+    method: req.method,
+    path: ref.path,
+    before: invite,
+    after,
+  })
+  res.status(200).send(`revoked ${ref.path}`)
+}
+
+export const invite = onRequest({}, async (req, res) => {
+  if (optionsResponse(req, res, ['GET', 'POST', 'DELETE'])) {
+    return
+  }
+  const token = req.path.split('/').filter(Boolean)[0]
+
+  try {
+    if (token) {
+      if (req.method === 'GET') {
+        const found = await findInvite(token)
+        if (!found) {
+          res.status(404).send('no such invitation')
+          return
+        }
+        const { name, roles, expires, status } = describe(
+          found.data() as Invite
+        )
+        compressResponse(req, res, () => {
+          res.json({ name, roles, expires, status })
+        })
+      } else if (req.method === 'POST') {
+        await accept(req, res, token)
+      } else {
+        res.status(400).send('bad request type')
+      }
+      return
+    }
+
+    const userRoles = await getUserRoles(req)
+    if (
+      !hasRole(userRoles, ROLES.admin) ||
+      !withinScope(userRoles, INVITE, req.method as REST_METHOD)
+    ) {
+      await logAudit(userRoles, {
+        method: req.method,
+        path: INVITE,
+        status: 403,
+        reason: 'forbidden',
+      })
+      res.status(403).send('forbidden')
+      return
+    }
+    if (req.method === 'POST') {
+      await create(req, res, userRoles)
+    } else if (req.method === 'DELETE' && req.query.id) {
+      await revoke(req, res, userRoles, req.query.id as string)
+    } else {
+      res.status(400).send('bad request')
+    }
+  } catch (e) {
+    functions.logger.error('Error handling invitation:', e)
+    res.status(500).send('internal error')
+  }
+})
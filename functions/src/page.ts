@@ -4,26 +4,29 @@ import { ROLES } from './collections/roles'
 import { getDoc } from './doc'
 import { getDocs } from './docs'
 
-import { onPrefetch, PageOptions, PrefetchData } from './prefetch'
+import { onPrefetch, PrefetchContext, PrefetchData } from './prefetch'
+import { renderPage } from './ssr'
+import { breadcrumbLD, webSiteLD } from './seo'
 import { Page, PageSchema } from '../shared/page'
 
-// Exported so other prefetch handlers can check the current page
-export let currentPage: Page | undefined
-
 interface AppConfig {
   title: string
   subtitle?: string
   description: string
   defaultPath?: string
+  host?: string // e.g. example.com
 }
 
+// Loads the page for the url (or the 404 page), which later handlers find in
+// results.page.page
 onPrefetch(
-  async (
-    req: any,
-    res: any,
-    url: string,
-    options: PageOptions
-  ): Promise<PrefetchData> => {
+  'page',
+  async ({
+    req,
+    res,
+    url,
+    options,
+  }: PrefetchContext): Promise<PrefetchData> => {
     const [_path] = url.substring(1).split('?', 2)
     const [urlPath] = _path.split('/')
     const data: PrefetchData = {}
@@ -34,6 +37,14 @@ onPrefetch(
       ? (appConfigResult.data as AppConfig)
       : undefined
     data.appConfig = appConfig
+    if (appConfig) {
+      options.siteName = appConfig.title
+      options.structuredData.site = webSiteLD(
+        options.origin,
+        appConfig.title,
+        appConfig.description
+      )
+    }
 
     // Determine which path to load (use defaultPath if at root and it's set)
     const path =
@@ -49,8 +60,14 @@ onPrefetch(
       page = notFoundResult.ok ? (notFoundResult.data as Page) : undefined
     }
 
-    // Store the current page for other prefetch handlers
-    currentPage = page
+    // (handlers that run after this may replace the breadcrumbs, e.g. with a
+    // trail to a blog post)
+    if (page && urlPath && page.path === path) {
+      options.structuredData.breadcrumbs = breadcrumbLD(options.origin, [
+        { name: 'Home', url: '/' },
+        { name: page.title, url: `/${page.path}` },
+      ])
+    }
 
     // Get visible pages for navigation menu
     const visiblePages = await getDocs(req, res, 'page/tags=visible', 100)
@@ -75,6 +92,10 @@ onPrefetch(
       if (page.type) {
         options.type = page.type
       }
+      const html = renderPage(page)
+      if (html) {
+        options.content.page = html
+      }
       if (page.prefetch?.length) {
         await Promise.all(
           page.prefetch.map(async ({ regexp, path: prefetchPath }) => {
@@ -111,6 +132,8 @@ onPrefetch(
 COLLECTIONS.page = {
   schema: PageSchema,
   unique: ['path'],
+  versioned: true,
+  softDelete: true,
   tagFields: ['tags'],
   access: {
     [ROLES.public]: {
@@ -0,0 +1,167 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import {
+  runPrefetchHandlers,
+  PageOptions,
+  PrefetchRegistration,
+} from './prefetch-handlers'
+
+const pause = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const context = (url = '/blog/hello') => ({
+  req: {},
+  res: {},
+  url,
+  options: {
+    title: '',
+    description: '',
+    imageUrl: '',
+    type: '',
+    origin: '',
+    content: {},
+    structuredData: {},
+  } as PageOptions,
+})
+
+test('handlers run after the handlers they need, and see their results', async () => {
+  const order: string[] = []
+  const handlers: PrefetchRegistration[] = [
+    {
+      name: 'blog',
+      after: ['page'],
+      handler: async ({ results, options }) => {
+        order.push('blog')
+        options.title = `${results.page.page.title}: Hello`
+        return { post: 'hello' }
+      },
+    },
+    {
+      name: 'page',
+      handler: async ({ url }) => {
+        await pause(10)
+        order.push('page')
+        return { page: { path: url.split('/')[1], title: 'Blog' } }
+      },
+    },
+    {
+      name: 'menu',
+      handler: async () => {
+        order.push('menu')
+        return { menu: [] }
+      },
+    },
+  ]
+  const requestContext = context()
+  const data = await runPrefetchHandlers(handlers, requestContext)
+  expect(order).toEqual(['menu', 'page', 'blog'])
+  expect(requestContext.options.title).toBe('Blog: Hello')
+  expect(Object.keys(data)).toEqual(['post', 'page', 'menu'])
+})
+
+test('concurrent requests each get their own context', async () => {
+  const handlers: PrefetchRegistration[] = [
+    {
+      name: 'page',
+      handler: async ({ url }) => {
+        await pause(url === '/slow' ? 20 : 0)
+        return { page: url }
+      },
+    },
+    {
+      name: 'echo',
+      after: ['page'],
+      handler: async ({ results }) => ({ echo: results.page.page }),
+    },
+  ]
+  const [slow, fast] = await Promise.all([
+    runPrefetchHandlers(handlers, context('/slow')),
+    runPrefetchHandlers(handlers, context('/fast')),
+  ])
+  expect(slow.echo).toBe('/slow')
+  expect(fast.echo).toBe('/fast')
+})
+
+test('failed, slow, and misconfigured handlers contribute nothing', async () => {
+  const errors: string[] = []
+  const handlers: PrefetchRegistration[] = [
+    {
+      name: 'broken',
+      handler: async () => {
+        throw new Error('oops')
+      },
+    },
+    {
+      name: 'slow',
+      timeoutMs: 10,
+      handler: async () => {
+        await pause(50)
+        return { slow: true }
+      },
+    },
+    {
+      name: 'dependent',
+      after: ['broken', 'slow'],
+      handler: async ({ results }) => ({ saw: results }),
+    },
+    { name: 'a', after: ['b'], handler: async () => ({ a: true }) },
+    { name: 'b', after: ['a'], handler: async () => ({ b: true }) },
+    { name: 'orphan', after: ['missing'], handler: async () => ({ o: true }) },
+    { name: 'fine', handler: async () => ({ fine: true }) },
+  ]
+  const data = await runPrefetchHandlers(handlers, context(), (name, error) =>
+    errors.push(`${name}: ${(error as Error).message}`)
+  )
+  expect(Object.keys(data)).toEqual(['saw', 'fine'])
+  expect(data.saw).toMatchObject({ broken: {}, slow: {} })
+  expect(errors.sort()).toEqual([
+    'a: prefetch handler "a" depends on itself',
+    'b: prefetch handler "b" depends on itself',
+    'broken: oops',
+    'orphan: unknown prefetch handlers: missing',
+    'slow: prefetch handler "slow" took longer than 10ms',
+  ])
+})
+
+test('only handlers that finish in time change the options', async () => {
+  const handlers: PrefetchRegistration[] = [
+    {
+      name: 'slow',
+      timeoutMs: 10,
+      handler: async ({ options }) => {
+        await pause(20)
+        options.title = 'Too late'
+        options.content.slow = '<p>too late</p>'
+        return {}
+      },
+    },
+    {
+      name: 'page',
+      handler: async ({ options }) => {
+        options.title = 'Page'
+        options.content.page = '<p>page</p>'
+        return {}
+      },
+    },
+    {
+      name: 'seo',
+      handler: async ({ options }) => {
+        await pause(5)
+        options.description = 'About the page'
+        options.structuredData.site = { '@type': 'WebSite' }
+        return {}
+      },
+    },
+  ]
+  const requestContext = context()
+  await runPrefetchHandlers(handlers, requestContext)
+  const rendered = JSON.stringify(requestContext.options)
+  await pause(30)
+  expect(JSON.stringify(requestContext.options)).toBe(rendered)
+  expect(requestContext.options).toMatchObject({
+    title: 'Page',
+    description: 'About the page',
+    content: { page: '<p>page</p>' },
+    structuredData: { site: { '@type': 'WebSite' } },
+  })
+})
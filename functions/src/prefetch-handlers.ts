@@ -0,0 +1,204 @@
+/**
+ * # prefetch handlers
+ *
+ * `prefetch` asks every handler registered with `onPrefetch` for the data a
+ * page needs, and lets them set its title, metadata, and server-rendered
+ * content. Each request gets its own `PrefetchContext`, so nothing is shared
+ * between requests an instance serves at the same time.
+ *
+ * Handlers run concurrently, except that a handler that lists others in
+ * `after` starts once they have finished, and can read what they returned in
+ * `context.results` (e.g. the blog handler needs the page handler's page):
+ *
+ * ```
+ * onPrefetch('blog', async ({ results, options }) => { ... }, {
+ *   after: ['page'],
+ *   timeoutMs: 2000,
+ * })
+ * ```
+ *
+ * A handler that fails, or takes longer than its `timeoutMs`, contributes
+ * nothing (handlers that run after it see `{}`), and the page is rendered
+ * without it. One that times out keeps running, but what it returns is
+ * dropped. Each handler changes its own copy of `options`, and what it
+ * changed is copied to the page's when it finishes in time, so a late handler
+ * can't change a page that's being rendered.
+ */
+
+import { StructuredData } from './seo'
+
+export interface PageOptions {
+  title: string
+  description: string
+  imageUrl: string
+  // Read from the image's metadata if it's in storage and these aren't set
+  imageWidth?: number
+  imageHeight?: number
+  url?: string
+  type: string
+  // The site's origin (e.g. https://example.com), for absolute URLs
+  origin: string
+  siteName?: string
+  // For articles
+  publishedTime?: string
+  modifiedTime?: string
+  author?: string
+  // Server-rendered HTML for the body (see ssr.ts), by what it shows
+  content: { [key: string]: string }
+  // schema.org JSON-LD (see seo.ts), by what it describes
+  structuredData: { [key: string]: StructuredData }
+}
+
+export interface PrefetchData {
+  [key: string]: any
+}
+
+export interface PrefetchContext {
+  req: any
+  res: any
+  url: string
+  options: PageOptions
+  // What finished handlers returned, by name
+  results: { [name: string]: PrefetchData }
+}
+
+export type PrefetchHandler = (
+  context: PrefetchContext
+) => Promise<PrefetchData>
+
+export interface PrefetchHandlerOptions {
+  after?: string[] // handlers whose results this one needs
+  timeoutMs?: number
+}
+
+export interface PrefetchRegistration extends PrefetchHandlerOptions {
+  name: string
+  handler: PrefetchHandler
+}
+
+export const DEFAULT_PREFETCH_TIMEOUT_MS = 5000
+
+// Handlers that (directly or not) must run after themselves
+const cyclic = (registrations: PrefetchRegistration[]): Set<string> => {
+  const after = new Map(
+    registrations.map(({ name, after }) => [name, after || []])
+  )
+  const found = new Set<string>()
+  const visit = (name: string, path: string[]) => {
+    if (path.includes(name)) {
+      path.slice(path.indexOf(name)).forEach((member) => found.add(member))
+      return
+    }
+    for (const dependency of after.get(name) || []) {
+      visit(dependency, [...path, name])
+    }
+  }
+  registrations.forEach(({ name }) => visit(name, []))
+  return found
+}
+
+const withTimeout = <T>(
+  promise: Promise<T>,
+  name: string,
+  timeoutMs: number
+): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new Error(
+            `prefetch handler "${name}" took longer than ${timeoutMs}ms`
+          )
+        ),
+      timeoutMs
+    )
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+const copyOptions = (options: PageOptions): PageOptions => ({
+  ...options,
+  content: { ...options.content },
+  structuredData: { ...options.structuredData },
+})
+
+// Copies what a handler changed in its copy of the options to the page's
+const mergeOptions = (
+  options: PageOptions,
+  before: PageOptions,
+  after: PageOptions
+): void => {
+  const changed = <T extends object>(from: T, to: T): Partial<T> =>
+    Object.fromEntries(
+      Object.entries(to).filter(
+        ([key, value]) => from[key as keyof T] !== value
+      )
+    ) as Partial<T>
+  const { content, structuredData, ...fields } = after
+  Object.assign(options, changed(before, fields as PageOptions))
+  Object.assign(options.content, changed(before.content, content))
+  Object.assign(
+    options.structuredData,
+    changed(before.structuredData, structuredData)
+  )
+}
+
+// Runs the handlers (see above), and merges their data in registration order
+export const runPrefetchHandlers = async (
+  registrations: PrefetchRegistration[],
+  context: Omit<PrefetchContext, 'results'>,
+  onError: (name: string, error: unknown) => void = () => undefined
+): Promise<PrefetchData> => {
+  const results: PrefetchContext['results'] = {}
+  const names = registrations.map(({ name }) => name)
+  const inCycle = cyclic(registrations)
+  const running = new Map<string, Promise<void>>()
+
+  const run = (registration: PrefetchRegistration): Promise<void> => {
+    const { name, handler, after = [] } = registration
+    const timeoutMs = registration.timeoutMs ?? DEFAULT_PREFETCH_TIMEOUT_MS
+    if (!running.has(name)) {
+      running.set(
+        name,
+        (async () => {
+          if (inCycle.has(name)) {
+            throw new Error(`prefetch handler "${name}" depends on itself`)
+          }
+          const missing = after.filter(
+            (dependency) => !names.includes(dependency)
+          )
+          if (missing.length) {
+            throw new Error(`unknown prefetch handlers: ${missing.join(', ')}`)
+          }
+          await Promise.all(
+            after.map((dependency) =>
+              run(registrations[names.indexOf(dependency)])
+            )
+          )
+          const before = copyOptions(context.options)
+          const options = copyOptions(before)
+          const data = await withTimeout(
+            handler({ ...context, options, results: { ...results } }),
+            name,
+            timeoutMs
+          )
+          mergeOptions(context.options, before, options)
+          return data
+        })().then(
+          (data) => {
+            results[name] = data || {}
+          },
+          (error) => {
+            results[name] = {}
+            onError(name, error)
+          }
+        )
+      )
+    }
+    return running.get(name) as Promise<void>
+  }
+
+  await Promise.all(registrations.map(run))
+  return Object.assign({}, ...names.map((name) => results[name]))
+}
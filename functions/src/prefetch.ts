@@ -2,8 +2,27 @@ import crypto from 'crypto'
 import { onRequest } from 'firebase-functions/v2/https'
 import * as functions from 'firebase-functions'
 import compression from 'compression'
-import { optionsResponse } from './utilities'
-import { DOCTYPE, elements } from './elements'
+import { optionsResponse, redirected } from './utilities'
+import { getDocData } from './doc'
+import { DOCTYPE, elements, escapeHTML } from './elements'
+import { contentSecurityPolicy, CspConfig } from './csp'
+import {
+  absoluteURL,
+  imageDimensions,
+  jsonLD,
+  originFor,
+  storedImagePath,
+} from './seo'
+import { storedFile } from './stored'
+import {
+  runPrefetchHandlers,
+  PageOptions,
+  PrefetchContext,
+  PrefetchData,
+  PrefetchHandler,
+  PrefetchHandlerOptions,
+  PrefetchRegistration,
+} from './prefetch-handlers'
 
 const compressResponse = compression()
 
@@ -12,48 +31,48 @@ const manifestUrl = '/manifest.json'
 const scriptUrl = '/index.js'
 const pageImage = '/logo.png'
 
-export interface PageOptions {
-  title: string
-  description: string
-  imageUrl: string
-  url?: string
-  type: string
-}
-
-export interface PrefetchData {
-  [key: string]: any
-}
-
-export type PrefetchCallback = (
-  req: any,
-  res: any,
-  url: string,
-  options: PageOptions
-) => Promise<PrefetchData>
-
-const prefetches: PrefetchCallback[] = []
-
-export function onPrefetch(callback: PrefetchCallback) {
-  if (!prefetches.includes(callback)) {
-    prefetches.push(callback)
+export type { PageOptions, PrefetchContext, PrefetchData, PrefetchHandler }
+
+const prefetches: PrefetchRegistration[] = []
+
+// Registers (or replaces) a named handler, see prefetch-handlers.ts
+export function onPrefetch(
+  name: string,
+  handler: PrefetchHandler,
+  options: PrefetchHandlerOptions = {}
+) {
+  const registration = { ...options, name, handler }
+  const index = prefetches.findIndex((existing) => existing.name === name)
+  if (index < 0) {
+    prefetches.push(registration)
+  } else {
+    prefetches[index] = registration
   }
 }
 
-export const getPrefetchData = async (
+export const getPrefetchData = (
   req: any,
   res: any,
   url: string,
   options: PageOptions
-): Promise<PrefetchData> => {
-  const prefetched = await Promise.all(
-    prefetches.map((f) =>
-      f(req, res, url, options).catch((error) => {
-        functions.logger.warn('Prefetch handler failed:', error)
-        return {}
-      })
-    )
+): Promise<PrefetchData> =>
+  runPrefetchHandlers(prefetches, { req, res, url, options }, (name, error) =>
+    functions.logger.warn(`Prefetch handler ${name} failed:`, error)
   )
-  return Object.assign({}, ...prefetched)
+
+// The size uploads record for images in storage (see uploadFile)
+const storedImageSize = async (imageUrl: string, origin: string) => {
+  const path = storedImagePath(imageUrl, origin)
+  if (!path) {
+    return undefined
+  }
+  try {
+    const [metadata] = await storedFile(path).getMetadata()
+    return imageDimensions(metadata.metadata)
+  } catch (e) {
+    functions.logger.warn(`Failed to read metadata for ${path}:`, e)
+    return undefined
+  }
 }
 
 const render = async (
@@ -63,10 +82,22 @@ const render = async (
   url: string,
   options: PageOptions
 ): Promise<string> => {
-  const { html, head, meta, title, link, script, body } = elements
+  const { html, head, meta, title, link, script, body, main } = elements
 
   const merged = await getPrefetchData(req, res, url, options)
-  const data = JSON.stringify(merged).replace(/"(\w+)":/g, '$1:')
+  // (escaping < so that content can't close the script tag)
+  const data = JSON.stringify(merged)
+    .replace(/"(\w+)":/g, '$1:')
+    .replace(/</g, '\\u003c')
+  const { content, structuredData, origin } = options
+  const [path] = url.split('?', 1)
+  const canonical = absoluteURL(origin, options.url || path)
+  const image = options.imageUrl || pageImage
+  const size =
+    options.imageWidth && options.imageHeight
+      ? { width: options.imageWidth, height: options.imageHeight }
+      : await storedImageSize(image, origin)
+  const type = options.type || 'website'
 
   return (
     DOCTYPE +
@@ -74,13 +105,37 @@ const render = async (
       { lang: 'en' },
       head(
         meta({ charset: 'utf-8' }),
-        title(options.title),
+        title(escapeHTML(options.title)),
         meta({ name: 'description', content: options.description }),
         meta({ property: 'og:title', content: options.title }),
         meta({ property: 'og:description', content: options.description }),
-        meta({ property: 'og:url', content: options.url || url }),
-        meta({ property: 'og:image', content: options.imageUrl || pageImage }),
-        meta({ property: 'og:type', content: options.type || 'website' }),
+        meta({ property: 'og:url', content: canonical }),
+        meta({ property: 'og:image', content: absoluteURL(origin, image) }),
+        size
+          ? meta({ property: 'og:image:width', content: size.width }) +
+              meta({ property: 'og:image:height', content: size.height })
+          : '',
+        meta({ property: 'og:type', content: type }),
+        options.siteName
+          ? meta({ property: 'og:site_name', content: options.siteName })
+          : '',
+        ...(type === 'article'
+          ? Object.entries({
+              'article:published_time': options.publishedTime,
+              'article:modified_time': options.modifiedTime,
+              'article:author': options.author,
+            }).map(([property, value]) =>
+              value ? meta({ property, content: value }) : ''
+            )
+          : []),
+        meta({
+          name: 'twitter:card',
+          content: options.imageUrl ? 'summary_large_image' : 'summary',
+        }),
+        meta({ name: 'twitter:title', content: options.title }),
+        meta({ name: 'twitter:description', content: options.description }),
+        meta({ name: 'twitter:image', content: absoluteURL(origin, image) }),
+        link({ rel: 'canonical', href: canonical }),
         link({ rel: 'icon', href: '/favicon.ico' }),
         meta({
           name: 'viewport',
@@ -89,20 +144,29 @@ const render = async (
         meta({ name: 'theme-color', content: '#000000' }),
         link({ rel: 'apple-touch-icon', href: options.imageUrl || iconUrl }),
         link({ rel: 'manifest', href: manifestUrl }),
-        script(
-          {
-            /* nonce, */
-          },
-          `var prefetched = ${data}`
-        ),
-        script({ /* nonce, */ type: 'module', src: scriptUrl })
+        ...Object.keys(structuredData)
+          .sort()
+          .map((key) =>
+            script({ type: 'application/ld+json' }, jsonLD(structuredData[key]))
+          ),
+        script({ nonce }, `var prefetched = ${data}`),
+        script({ nonce, type: 'module', src: scriptUrl })
       ),
-      body()
+      body(
+        main(
+          { id: 'prerendered' },
+          ...Object.keys(content)
+            .sort()
+            .map((key) => content[key])
+        )
+      )
     )
   )
 }
 
-export const redirected = (url: string, req: any, res: any): boolean => {
+// Posts used to live at /YYYY/MM/DD/slug (rules in the redirect collection
+// are checked first, see redirects.ts)
+const legacyBlogRedirect = (url: string, res: any): boolean => {
   if (url.match(/^\/\d{4}\/\d{2}\/\d+\/[\w-]*$/)) {
     res.redirect(301, `/blog${url}`)
     return true
@@ -118,7 +182,7 @@ export const prefetch = onRequest({}, async (req, res) => {
   const url = (req.headers['x-forwarded-url'] ||
     req.headers['x-original-url']) as string
 
-  if (redirected(url, req, res)) return
+  if ((await redirected(url, res)) || legacyBlogRedirect(url, res)) return
 
   if (url.match(/\.\w{3,4}$/)) {
     res.status(404).send()
@@ -126,22 +190,30 @@ export const prefetch = onRequest({}, async (req, res) => {
   }
 
   const nonce = crypto.randomBytes(16).toString('base64')
-  const html = await render(req, res, nonce, url, {
-    title: 'inconsequence',
-    description: 'musings on subjects of passing interest',
-    imageUrl: '',
-    type: '',
-  })
+  const appConfig = await getDocData(req, res, 'config/app')
+  const [cspConfig, html] = await Promise.all([
+    getDocData(req, res, 'config/csp') as Promise<CspConfig | undefined>,
+    render(req, res, nonce, url, {
+      title: 'inconsequence',
+      description: 'musings on subjects of passing interest',
+      imageUrl: '',
+      type: '',
+      origin: originFor((appConfig?.host as string) || req.hostname),
+      content: {},
+      structuredData: {},
+    }),
+  ])
 
   compressResponse(req, res, () => {
     res.header('Content-Type', 'text/html')
-    // TODO figure out how to implement dynamic nonces
-    /*
     res.header(
       'Content-Security-Policy',
-      `script-src 'nonce-${nonce}' 'self' www.googletagmanager.com apis.google.com`
+      contentSecurityPolicy(
+        nonce,
+        cspConfig,
+        process.env.FUNCTIONS_EMULATOR === 'true'
+      )
     )
-    */
     res.status(200).send(html)
   })
 })
@@ -159,6 +231,9 @@ export const prefetchData = onRequest({}, async (req, res) => {
     description: '',
     imageUrl: '',
     type: '',
+    origin: '',
+    content: {},
+    structuredData: {},
   }
 
   const data = await getPrefetchData(req, res, url, options)
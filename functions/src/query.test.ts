@@ -0,0 +1,80 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import {
+  decodeCursor,
+  encodeCursor,
+  indexDefinition,
+  parseQuery,
+} from './query'
+
+const queryable = ['date', 'author', 'tags', 'count', 'status']
+
+test('comparisons', () => {
+  expect(parseQuery('date>=2024-01-01,date<2025-01-01', queryable)).toEqual([
+    { field: 'date', operator: '>=', value: '2024-01-01' },
+    { field: 'date', operator: '<', value: '2025-01-01' },
+  ])
+  expect(parseQuery('count > 3, author == "Smith, J."', queryable)).toEqual([
+    { field: 'count', operator: '>', value: 3 },
+    { field: 'author', operator: '==', value: 'Smith, J.' },
+  ])
+})
+
+test('list operators', () => {
+  expect(parseQuery('tags array-contains-any news|release', queryable)).toEqual(
+    [
+      {
+        field: 'tags',
+        operator: 'array-contains-any',
+        value: ['news', 'release'],
+      },
+    ]
+  )
+  expect(parseQuery('status in ["draft","review, final"]', queryable)).toEqual([
+    { field: 'status', operator: 'in', value: ['draft', 'review, final'] },
+  ])
+  expect(parseQuery('tags array-contains news', queryable)).toEqual([
+    { field: 'tags', operator: 'array-contains', value: 'news' },
+  ])
+})
+
+test('rejected queries', () => {
+  expect(parseQuery('secret==1', queryable)).toBeInstanceOf(Error)
+  expect(parseQuery('date~2024', queryable)).toBeInstanceOf(Error)
+  expect(parseQuery('status in ["draft"', queryable)).toBeInstanceOf(Error)
+  expect(parseQuery('date=="unterminated', queryable)).toBeInstanceOf(Error)
+  expect(parseQuery('date==2024')).toBeInstanceOf(Error)
+})
+
+test('index definitions', () => {
+  const query = parseQuery(
+    'tags array-contains news,author==Smith,date>=2024-01-01',
+    queryable
+  )
+  if (query instanceof Error) throw query
+  expect(indexDefinition('post', query, 'count', true)).toEqual({
+    collectionGroup: 'post',
+    queryScope: 'COLLECTION',
+    fields: [
+      { fieldPath: 'tags', arrayConfig: 'CONTAINS' },
+      { fieldPath: 'author', order: 'ASCENDING' },
+      { fieldPath: 'count', order: 'DESCENDING' },
+      { fieldPath: 'date', order: 'ASCENDING' },
+    ],
+  })
+  expect(indexDefinition('post', query.slice(1), 'date', true).fields).toEqual([
+    { fieldPath: 'author', order: 'ASCENDING' },
+    { fieldPath: 'date', order: 'DESCENDING' },
+  ])
+})
+
+test('cursors are opaque and tied to their sort order', () => {
+  const cursor = { o: 'date(desc)', v: '2024-01-01', id: 'abc', d: 'next' }
+  const token = encodeCursor(cursor as any)
+  expect(token).not.toContain('2024')
+  expect(token).toMatch(/^[\w-]+$/)
+  expect(decodeCursor(token, 'date(desc)')).toEqual(cursor)
+  expect(decodeCursor(token, 'date')).toBeInstanceOf(Error)
+  expect(decodeCursor('garbage', 'date(desc)')).toBeInstanceOf(Error)
+})
@@ -0,0 +1,178 @@
+/**
+ * # /docs queries
+ *
+ * Parses the `q` parameter of `/docs`, a comma-delimited list of clauses:
+ *
+ * ```
+ * date>=2024-01-01,date<2025-01-01
+ * author==Tonio
+ * tags array-contains-any news|release
+ * status in ["draft","review"]
+ * ```
+ *
+ * Comparisons (`==`, `!=`, `<`, `<=`, `>`, `>=`) may be written without spaces;
+ * `in`, `not-in`, `array-contains`, and `array-contains-any` need them. List
+ * values are `|`-delimited or a JSON array. Values that look like numbers or
+ * `true`/`false`/`null` are converted, and JSON-quoted strings may contain
+ * commas.
+ *
+ * Also builds the `firestore.indexes.json` entry a query needs, since
+ * Firestore only reports missing composite indexes as a console link, and
+ * encodes the opaque cursors `/docs` uses for paging.
+ */
+
+export type QueryOperator = FirebaseFirestore.WhereFilterOp
+
+export interface QueryClause {
+  field: string
+  operator: QueryOperator
+  value: unknown
+}
+
+// A clause, or a list of clauses any one of which may match
+export type QueryFilter = QueryClause | QueryClause[]
+
+const COMPARISON = /^\s*([\w.]+)\s*(==|!=|<=|>=|<|>)\s*(.*?)\s*$/
+const WORD_OPERATOR =
+  /^\s*([\w.]+)\s+(not-in|in|array-contains-any|array-contains)\s+(.*?)\s*$/
+const LIST_OPERATORS = ['in', 'not-in', 'array-contains-any']
+const EQUALITY_OPERATORS = ['==', 'in', 'array-contains', 'array-contains-any']
+
+// Splits on commas that aren't inside JSON strings or arrays
+const CLAUSE = /(?:"(?:\\.|[^"\\])*"|\[[^\]]*\]|[^,])+/g
+
+const parseValue = (raw: string): unknown => {
+  if (raw.startsWith('"') || raw.startsWith('[')) {
+    return JSON.parse(raw)
+  }
+  if (/^-?\d+(\.\d+)?$/.test(raw)) {
+    return Number(raw)
+  }
+  if (raw === 'true' || raw === 'false' || raw === 'null') {
+    return JSON.parse(raw)
+  }
+  return raw
+}
+
+const parseList = (raw: string): unknown[] =>
+  raw.startsWith('[')
+    ? (parseValue(raw) as unknown[])
+    : raw.split('|').map((item) => parseValue(item.trim()))
+
+export const parseQuery = (
+  q: string,
+  queryableFields: string[] = []
+): QueryClause[] | Error => {
+  const clauses: QueryClause[] = []
+  for (const text of q.match(CLAUSE) || []) {
+    if (!text.trim()) {
+      continue
+    }
+    const [, field, operator, raw] =
+      text.match(COMPARISON) || text.match(WORD_OPERATOR) || []
+    if (!field) {
+      return new Error(`cannot parse query "${text.trim()}"`)
+    }
+    if (!queryableFields.includes(field)) {
+      return new Error(`${field} is not queryable`)
+    }
+    try {
+      const value = LIST_OPERATORS.includes(operator)
+        ? parseList(raw)
+        : parseValue(raw)
+      if (LIST_OPERATORS.includes(operator) && !Array.isArray(value)) {
+        return new Error(`${operator} needs a list of values`)
+      }
+      clauses.push({ field, operator: operator as QueryOperator, value })
+    } catch (e) {
+      return new Error(`bad value in query "${text.trim()}"`)
+    }
+  }
+  return clauses
+}
+
+// Parses an `o` parameter, e.g. `date` or `date(desc)`, into the sort field
+// and whether it is descending
+export const parseOrder = (order: string): [string, boolean] => {
+  const [, field, direction] = order.match(/^(\w+)(\(asc\)|\(desc\))?$/) || [
+    '',
+    '',
+  ]
+  return [field, direction === '(desc)']
+}
+
+export interface IndexField {
+  fieldPath: string
+  order?: 'ASCENDING' | 'DESCENDING'
+  arrayConfig?: 'CONTAINS'
+}
+
+export interface IndexDefinition {
+  collectionGroup: string
+  queryScope: 'COLLECTION'
+  fields: IndexField[]
+}
+
+// The composite index for a query: equality fields first, then the sort field,
+// then range fields (which Firestore implicitly sorts by after it)
+export const indexDefinition = (
+  collectionGroup: string,
+  clauses: QueryClause[],
+  orderField = '',
+  descending = false
+): IndexDefinition => {
+  const fields: IndexField[] = []
+  const add = (field: IndexField) => {
+    if (!fields.some((other) => other.fieldPath === field.fieldPath)) {
+      fields.push(field)
+    }
+  }
+  for (const { field, operator } of clauses) {
+    if (operator.startsWith('array-contains')) {
+      add({ fieldPath: field, arrayConfig: 'CONTAINS' })
+    } else if (EQUALITY_OPERATORS.includes(operator)) {
+      add({ fieldPath: field, order: 'ASCENDING' })
+    }
+  }
+  const range = clauses.filter(
+    ({ operator }) => !EQUALITY_OPERATORS.includes(operator)
+  )
+  if (orderField) {
+    add({
+      fieldPath: orderField,
+      order: descending ? 'DESCENDING' : 'ASCENDING',
+    })
+  }
+  for (const { field } of range) {
+    add({ fieldPath: field, order: 'ASCENDING' })
+  }
+  return { collectionGroup, queryScope: 'COLLECTION', fields }
+}
+
+// Where a page of /docs results starts: just after (`next`) or before (`prev`)
+// the record with this id and sort field value, for the sort order `o`
+export interface Cursor {
+  o: string
+  v?: unknown
+  id: string
+  d: 'next' | 'prev'
+}
+
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url')
+
+export const decodeCursor = (token: string, order: string): Cursor | Error => {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString())
+    if (
+      cursor.o === order &&
+      typeof cursor.id === 'string' &&
+      ['next', 'prev'].includes(cursor.d)
+    ) {
+      return cursor as Cursor
+    }
+  } catch (e) {
+    // fall through
+  }
+  return new Error('bad cursor')
+}
@@ -0,0 +1,102 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import {
+  checkSlidingWindow,
+  createMemoryStore,
+  limitFor,
+  rateLimitKey,
+  slidingCount,
+  RateLimitConfig,
+} from './rate-limit'
+import { anonymousUser, UserRoles } from './collections/roles'
+
+const MINUTE = 60 * 1000
+
+const config: RateLimitConfig = {
+  name: 'doc',
+  windowMs: MINUTE,
+  maxRequests: 100,
+  roles: { author: 300, editor: 600, developer: false },
+}
+
+const user = (roles: UserRoles['roles']): UserRoles => ({
+  ...anonymousUser,
+  roles,
+  uid: 'jane-uid',
+})
+
+test('limits depend on the most privileged role configured', () => {
+  expect(limitFor(config, anonymousUser)).toBe(100)
+  expect(limitFor(config, user([]))).toBe(100)
+  expect(limitFor(config, user(['author']))).toBe(300)
+  expect(limitFor(config, user(['author', 'editor']))).toBe(600)
+  // admins inherit the editor limit
+  expect(limitFor(config, user(['admin']))).toBe(600)
+  expect(limitFor(config, user(['owner']))).toBe(false)
+  expect(limitFor({ ...config, roles: undefined }, user(['editor']))).toBe(100)
+})
+
+test('users are counted by uid, everyone else by IP', () => {
+  expect(rateLimitKey(config, anonymousUser, '1.2.3.4')).toBe('doc:ip:1.2.3.4')
+  expect(rateLimitKey(config, user(['author']), '1.2.3.4')).toBe(
+    'doc:uid:jane-uid'
+  )
+  expect(rateLimitKey({ ...config, name: undefined }, anonymousUser, 'x')).toBe(
+    'default:ip:x'
+  )
+})
+
+test('the previous window counts less as it slides away', () => {
+  expect(slidingCount({ current: 10, previous: 100 }, 0, MINUTE)).toBe(110)
+  expect(slidingCount({ current: 10, previous: 100 }, MINUTE / 4, MINUTE)).toBe(
+    85
+  )
+  expect(slidingCount({ current: 10, previous: 100 }, MINUTE, MINUTE)).toBe(10)
+})
+
+test('requests over the limit are refused until the window slides', async () => {
+  const store = createMemoryStore()
+  const start = 10 * MINUTE
+  const results = []
+  for (let i = 0; i < 4; i++) {
+    results.push(await checkSlidingWindow(store, 'k', 3, MINUTE, start + i))
+  }
+  expect(results.map((result) => result.limited)).toEqual([
+    false,
+    false,
+    false,
+    true,
+  ])
+  expect(results[0].remaining).toBe(2)
+  expect(results[3].retryAfter).toBeGreaterThan(60)
+
+  // halfway through the next window, the 4 earlier requests count as 2
+  const later = await checkSlidingWindow(
+    store,
+    'k',
+    3,
+    MINUTE,
+    start + MINUTE * 1.5
+  )
+  expect(later.limited).toBe(false)
+  expect(later.remaining).toBe(0)
+  const next = await checkSlidingWindow(
+    store,
+    'k',
+    3,
+    MINUTE,
+    start + MINUTE * 1.5
+  )
+  expect(next.limited).toBe(true)
+  expect(next.retryAfter).toBe(15)
+})
+
+test('the memory store stays bounded', async () => {
+  const store = createMemoryStore(2)
+  await store.hit('a', 0, MINUTE)
+  await store.hit('b', 0, MINUTE)
+  await store.hit('c', 0, MINUTE)
+  expect(await store.hit('a', 0, MINUTE)).toEqual({ current: 1, previous: 0 })
+  expect(await store.hit('c', 0, MINUTE)).toEqual({ current: 2, previous: 0 })
+})
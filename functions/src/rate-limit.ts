@@ -0,0 +1,145 @@
+/**
+ * # rate limits
+ *
+ * Limits are set per endpoint with a `RateLimitConfig`, and may differ by role:
+ * a signed-in user (or API key) gets the limit of the most privileged role they
+ * hold that the config names, and is counted by uid; everyone else gets
+ * `maxRequests` and is counted by IP.
+ *
+ * Requests are counted with a sliding-window counter: the count for the
+ * current fixed window plus the previous window's count, weighted by how much
+ * of it the sliding window still covers. Counts live in a `RateLimitStore`,
+ * which is this instance's memory unless the config names a shared store (see
+ * `rateLimitStore` in `utilities.ts`, which keeps counts in Firestore so that
+ * scaling out doesn't multiply the limit).
+ */
+
+import { heldRoles, roleRank, UserRoles } from './collections/roles'
+
+// Rate limiting configuration
+export interface RateLimitConfig {
+  windowMs: number // Time window in milliseconds
+  maxRequests: number // Maximum requests per window per IP
+  name?: string // counts are kept per name, so endpoints can share or not
+  // maximum requests per window per user holding a role (false = unlimited)
+  roles?: { [role: string]: number | false }
+  store?: RateLimitStore // where counts are kept (default: in memory)
+}
+
+export interface RateLimitCounts {
+  current: number // requests in the current window, including this one
+  previous: number // requests in the window before it
+}
+
+export interface RateLimitStore {
+  // Counts a request against key in the window starting at windowStart
+  hit: (
+    key: string,
+    windowStart: number,
+    windowMs: number
+  ) => Promise<RateLimitCounts>
+}
+
+export interface RateLimitResult {
+  limited: boolean
+  limit: number
+  remaining: number
+  reset: number // when the current window ends, in epoch seconds
+  retryAfter: number // seconds until a request would be allowed
+}
+
+// The most requests a user may make per window, or false for no limit
+export const limitFor = (
+  config: RateLimitConfig,
+  userRoles: UserRoles
+): number | false => {
+  if (!userRoles.uid || !config.roles) {
+    return config.maxRequests
+  }
+  const held = heldRoles(userRoles.roles)
+  const role = Object.keys(config.roles)
+    .filter((role) => held.includes(role))
+    .sort((a, b) => roleRank(b) - roleRank(a))[0]
+  return role === undefined ? config.maxRequests : config.roles[role]
+}
+
+// Signed-in users (and API keys) are counted by uid, everyone else by IP
+export const rateLimitKey = (
+  config: RateLimitConfig,
+  userRoles: UserRoles,
+  ip: string
+): string =>
+  `${config.name || 'default'}:${
+    userRoles.uid ? `uid:${userRoles.uid}` : `ip:${ip}`
+  }`
+
+export const slidingCount = (
+  { current, previous }: RateLimitCounts,
+  elapsed: number,
+  windowMs: number
+): number => current + previous * Math.max(0, 1 - elapsed / windowMs)
+
+export const checkSlidingWindow = async (
+  store: RateLimitStore,
+  key: string,
+  limit: number,
+  windowMs: number,
+  now = Date.now()
+): Promise<RateLimitResult> => {
+  const windowStart = Math.floor(now / windowMs) * windowMs
+  const elapsed = now - windowStart
+  const counts = await store.hit(key, windowStart, windowMs)
+  const count = slidingCount(counts, elapsed, windowMs)
+  const reset = Math.ceil((windowStart + windowMs) / 1000)
+  if (count <= limit) {
+    return {
+      limited: false,
+      limit,
+      remaining: Math.floor(limit - count),
+      reset,
+      retryAfter: 0,
+    }
+  }
+  // Until the previous window's weight drops enough or, if this window alone
+  // is over the limit, until this window's weight drops enough in the next
+  const wait =
+    counts.current > limit
+      ? windowMs - elapsed + (1 - limit / counts.current) * windowMs
+      : Math.min(
+          windowMs - elapsed,
+          ((count - limit) / counts.previous) * windowMs
+        )
+  return {
+    limited: true,
+    limit,
+    remaining: 0,
+    reset,
+    retryAfter: Math.max(1, Math.ceil(wait / 1000)),
+  }
+}
+
+// Counts kept in this instance's memory
+export const createMemoryStore = (maxKeys = 10000): RateLimitStore => {
+  const windows = new Map<string, { windowStart: number; count: number }>()
+  return {
+    async hit(key, windowStart, windowMs) {
+      const current = windows.get(`${key}@${windowStart}`)
+      const previous = windows.get(`${key}@${windowStart - windowMs}`)
+      if (!current && windows.size >= maxKeys) {
+        // drop windows that can no longer count, or else the oldest
+        for (const [id, entry] of windows) {
+          if (entry.windowStart < windowStart - windowMs) {
+            windows.delete(id)
+          }
+        }
+        if (windows.size >= maxKeys) {
+          windows.delete(windows.keys().next().value as string)
+        }
+      }
+      const entry = current || { windowStart, count: 0 }
+      entry.count += 1
+      windows.set(`${key}@${windowStart}`, entry)
+      return { current: entry.count, previous: previous?.count || 0 }
+    },
+  }
+}
@@ -0,0 +1,104 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import {
+  compileRules,
+  createRedirectCache,
+  findRedirect,
+  substitute,
+  RedirectRule,
+} from './redirects'
+
+const rule = (
+  _id: string,
+  source: string,
+  match: RedirectRule['match'],
+  target?: string,
+  status: RedirectRule['status'] = 301,
+  extra: Partial<RedirectRule> = {}
+): RedirectRule => ({ _id, source, match, target, status, ...extra })
+
+const rules = compileRules([
+  rule('docs', '/docs/', 'prefix', '/help/$1'),
+  rule('docs-api', '/docs/api/', 'prefix', '/reference/$1', 302),
+  rule('blog', '/blog', 'prefix', '/news$1'),
+  rule('about', '/about/', 'exact', '/company'),
+  rule('gone', '/old-sale', 'exact', undefined, 410),
+  rule(
+    'images',
+    '^/stored/img/(\\w+)\\.(png|jpg)$',
+    'regex',
+    '/stored/images/$1.$2',
+    307
+  ),
+  rule('bad', '([', 'regex', '/nowhere'),
+  rule('expired', '/promo', 'exact', '/sale', 302, {
+    expires: '2024-01-01T00:00:00.000Z',
+  }),
+  rule('loop', '/same', 'exact', '/same'),
+])
+const now = new Date('2024-06-01T00:00:00.000Z')
+const where = (url: string) => {
+  const match = findRedirect(rules, url, now)
+  return match && [match.rule._id, match.status, match.location]
+}
+
+test('exact rules ignore trailing slashes and keep the query', () => {
+  expect(where('/about')).toEqual(['about', 301, '/company'])
+  expect(where('/about/?ref=nav')).toEqual(['about', 301, '/company?ref=nav'])
+  expect(where('/about/team')).toBeUndefined()
+  expect(where('/old-sale')).toEqual(['gone', 410, undefined])
+})
+
+test('the longest prefix wins and passes on the rest of the path', () => {
+  expect(where('/docs/intro')).toEqual(['docs', 301, '/help/intro'])
+  expect(where('/docs/api/doc?x=1')).toEqual([
+    'docs-api',
+    302,
+    '/reference/doc?x=1',
+  ])
+  expect(where('/docsify')).toBeUndefined()
+  expect(where('/blog')).toEqual(['blog', 301, '/news'])
+  expect(where('/blog/hello')).toEqual(['blog', 301, '/news/hello'])
+  expect(where('/blogroll')).toBeUndefined()
+})
+
+test('regex rules substitute groups and invalid ones are skipped', () => {
+  expect(compileRules([rule('bad', '([', 'regex', '/')])).toEqual([])
+  expect(where('/stored/img/cat.png')).toEqual([
+    'images',
+    307,
+    '/stored/images/cat.png',
+  ])
+  expect(where('/stored/img/cat.gif')).toBeUndefined()
+  expect(substitute('/$1/$2/$3', ['x', 'a', 'b'])).toBe('/a/b/')
+})
+
+test('expired and self-referencing rules are ignored', () => {
+  expect(where('/promo')).toBeUndefined()
+  expect(findRedirect(rules, '/promo', new Date('2023-12-31'))?.location).toBe(
+    '/sale'
+  )
+  expect(where('/same')).toBeUndefined()
+})
+
+test('rules are cached until they expire or are invalidated', async () => {
+  let loads = 0
+  let time = 0
+  const cache = createRedirectCache(
+    async () => {
+      loads += 1
+      return [rule('about', '/about', 'exact', '/company')]
+    },
+    { ttlSeconds: 60, now: () => time }
+  )
+  await cache.rules()
+  await cache.rules()
+  expect(loads).toBe(1)
+  time = 60000
+  await cache.rules()
+  expect(loads).toBe(2)
+  cache.invalidate()
+  expect(findRedirect(await cache.rules(), '/about')?.location).toBe('/company')
+  expect(loads).toBe(3)
+})
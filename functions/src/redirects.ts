@@ -0,0 +1,165 @@
+/**
+ * # redirects
+ *
+ * Rules in the `redirect` collection (see `collections/redirect.ts`) send
+ * requests for pages and stored files that have moved somewhere else, or
+ * answer `410 Gone` for ones that were removed. `prefetch` and `stored` check
+ * them before doing anything else.
+ *
+ * A rule's `source` is compared with the request's path:
+ * - `exact` rules match the path (ignoring a trailing slash)
+ * - `prefix` rules match paths that start with it, followed by `/` or nothing
+ *   (so `/docs` matches `/docs/intro` but not `/docsearch`); `$1` in the
+ *   target is the rest of the path
+ * - `regex` rules are tested against the path and query string; `$1`, `$2`,
+ *   etc. in the target are replaced by its groups
+ *
+ * Exact rules win over prefixes, longer prefixes over shorter ones, and both
+ * over regular expressions, which are tried oldest first. Exact and prefix
+ * redirects keep the query string unless the target has its own.
+ *
+ * Each instance caches the compiled rules for `ttlSeconds`, so a change made
+ * on another instance takes up to that long to apply.
+ */
+
+import { Redirect } from '../shared/redirect'
+
+export interface RedirectRule extends Redirect {
+  _id: string
+}
+
+export interface RedirectMatch {
+  rule: RedirectRule
+  status: number
+  location?: string // absent for 410
+}
+
+export interface CompiledRule {
+  rule: RedirectRule
+  // The groups to substitute into the target, if the rule matches
+  test: (path: string, url: string) => string[] | undefined
+}
+
+export interface RedirectCacheOptions {
+  ttlSeconds?: number
+  now?: () => number
+}
+
+const MATCH_ORDER = ['exact', 'prefix', 'regex']
+
+const trimSlash = (path: string): string =>
+  path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path
+
+const compileRule = (rule: RedirectRule): CompiledRule | undefined => {
+  const { source, match } = rule
+  if (match === 'exact') {
+    const exact = trimSlash(source)
+    return {
+      rule,
+      test: (path) => (trimSlash(path) === exact ? [path] : undefined),
+    }
+  }
+  if (match === 'prefix') {
+    // where a path matching the prefix may go on
+    const boundary = (path: string) =>
+      source.endsWith('/') ||
+      path.length === source.length ||
+      path[source.length] === '/'
+    return {
+      rule,
+      test: (path) =>
+        path.startsWith(source) && boundary(path)
+          ? [path, path.substring(source.length)]
+          : undefined,
+    }
+  }
+  try {
+    const regexp = new RegExp(source)
+    return {
+      rule,
+      test: (_path, url) => {
+        const groups = url.match(regexp)
+        return groups ? groups.map((group) => group ?? '') : undefined
+      },
+    }
+  } catch {
+    return undefined // rules are validated when saved, so this is old data
+  }
+}
+
+export const compileRules = (rules: RedirectRule[]): CompiledRule[] =>
+  rules
+    .map(compileRule)
+    .filter((compiled): compiled is CompiledRule => compiled !== undefined)
+    .sort((a, b) => {
+      const order =
+        MATCH_ORDER.indexOf(a.rule.match) - MATCH_ORDER.indexOf(b.rule.match)
+      if (order !== 0) {
+        return order
+      }
+      return a.rule.match === 'prefix'
+        ? b.rule.source.length - a.rule.source.length
+        : (a.rule._created || '').localeCompare(b.rule._created || '')
+    })
+
+export const substitute = (target: string, groups: string[]): string =>
+  target.replace(/\$(\d)/g, (_, index) => groups[Number(index)] ?? '')
+
+export const findRedirect = (
+  rules: CompiledRule[],
+  url: string,
+  now = new Date()
+): RedirectMatch | undefined => {
+  const queryStart = url.indexOf('?')
+  const path = queryStart < 0 ? url : url.substring(0, queryStart)
+  const query = queryStart < 0 ? '' : url.substring(queryStart + 1)
+  for (const { rule, test } of rules) {
+    if (rule.expires && new Date(rule.expires) <= now) {
+      continue
+    }
+    const groups = test(path, url)
+    if (!groups) {
+      continue
+    }
+    if (rule.status === 410) {
+      return { rule, status: 410 }
+    }
+    let location = substitute(rule.target || '/', groups)
+    if (rule.match !== 'regex' && query && !location.includes('?')) {
+      location += `?${query}`
+    }
+    // a rule that sends a request where it already is would loop
+    if (location !== url) {
+      return { rule, status: rule.status, location }
+    }
+  }
+  return undefined
+}
+
+// Per-instance cache of the compiled rules
+export const createRedirectCache = (
+  load: () => Promise<RedirectRule[]>,
+  { ttlSeconds = 60, now = Date.now }: RedirectCacheOptions = {}
+) => {
+  let cached: Promise<CompiledRule[]> | undefined
+  let expiry = 0
+
+  return {
+    async rules(): Promise<CompiledRule[]> {
+      if (!cached || now() >= expiry) {
+        cached = load().then(compileRules)
+        expiry = now() + ttlSeconds * 1000
+        // don't cache a failed load
+        cached.catch(() => {
+          cached = undefined
+        })
+      }
+      return cached
+    },
+
+    // Call after a rule is written on this instance
+    invalidate(): void {
+      cached = undefined
+    },
+  }
+}
@@ -0,0 +1,95 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import { createRoleCache } from './role-cache'
+import { UserRoles } from './collections/roles'
+
+// The time of the last role write, as several instances would see it
+const sharedStore = () => {
+  const store = {
+    value: 0,
+    modified: async () => store.value,
+    touch: async (time: number) => {
+      store.value = time
+    },
+  }
+  return store
+}
+
+const clock = () => {
+  const time = { now: 1000, tick: (ms: number) => (time.now += ms) }
+  return time
+}
+
+const admin: UserRoles = {
+  _id: 'jane-role',
+  name: 'Jane',
+  contacts: [],
+  roles: ['admin'],
+  userIds: ['jane-uid'],
+  uid: 'jane-uid',
+}
+
+test('entries expire', async () => {
+  const time = clock()
+  const cache = createRoleCache(sharedStore(), {
+    now: () => time.now,
+    ttlSeconds: 60,
+  })
+  cache.set('jane-uid', admin)
+  expect(await cache.get('jane-uid')).toEqual(admin)
+  expect(await cache.get('other-uid')).toBeUndefined()
+  time.tick(61 * 1000)
+  expect(await cache.get('jane-uid')).toBeUndefined()
+})
+
+test('role writes on any instance flush every cache', async () => {
+  const time = clock()
+  const store = sharedStore()
+  const options = { now: () => time.now, pollSeconds: 5 }
+  const here = createRoleCache(store, options)
+  const there = createRoleCache(store, options)
+
+  here.set('jane-uid', admin)
+  there.set('jane-uid', admin)
+  expect(await here.get('jane-uid')).toEqual(admin)
+  await there.invalidate()
+  expect(await there.get('jane-uid')).toBeUndefined()
+
+  // not noticed until the next poll
+  time.tick(2 * 1000)
+  expect(await here.get('jane-uid')).toEqual(admin)
+  time.tick(3 * 1000)
+  expect(await here.get('jane-uid')).toBeUndefined()
+})
+
+test('the cache stays bounded', async () => {
+  const cache = createRoleCache(sharedStore(), { maxEntries: 2 })
+  cache.set('a', admin)
+  cache.set('b', admin)
+  cache.set('c', admin)
+  expect(cache.size()).toBe(2)
+  expect(await cache.get('a')).toBeUndefined()
+  expect(await cache.get('c')).toEqual(admin)
+})
+
+test('claims are fresh until a role is written', async () => {
+  const time = clock()
+  const store = sharedStore()
+  const options = { now: () => time.now, pollSeconds: 5 }
+  const here = createRoleCache(store, options)
+  const there = createRoleCache(store, options)
+  const claims = { roles: ['admin'], roleId: 'jane-role', rolesSynced: 500 }
+
+  expect(await here.claimsAreFresh(claims)).toBe(true)
+  expect(await here.claimsAreFresh({ roles: ['admin'] })).toBe(false)
+  expect(await here.claimsAreFresh({ rolesSynced: 500 })).toBe(false)
+
+  await there.invalidate()
+  expect(await there.claimsAreFresh(claims)).toBe(false)
+  time.tick(5 * 1000)
+  expect(await here.claimsAreFresh(claims)).toBe(false)
+  expect(await here.claimsAreFresh({ ...claims, rolesSynced: time.now })).toBe(
+    true
+  )
+})
@@ -0,0 +1,115 @@
+/**
+ * # role cache
+ *
+ * Per-instance TTL cache of the roles `getUserRoles` resolves, keyed by uid,
+ * so most requests skip the `role` queries and the custom claims sync.
+ *
+ * One role record can grant (or stop granting) roles to many users, so any
+ * write to the `role` collection drops every entry. Writes on other instances
+ * are seen via a shared timestamp of the last role write, which instances
+ * check at most every `pollSeconds`.
+ *
+ * The same timestamp decides whether the roles in a user's custom claims (see
+ * `syncRolesToCustomClaims`) can be trusted without a lookup: claims synced
+ * after the last role write are fresh.
+ */
+
+import { UserRoles } from './collections/roles'
+
+// The custom claims getUserRoles keeps in sync with the user's role record
+export interface RoleClaims {
+  roles?: string[]
+  roleId?: string
+  rolesSynced?: number // when the claims were last synced
+}
+
+// Where the time of the last role write lives
+export interface RoleCacheStore {
+  modified: () => Promise<number>
+  touch: (time: number) => Promise<void>
+}
+
+export interface RoleCacheOptions {
+  ttlSeconds?: number
+  pollSeconds?: number
+  maxEntries?: number
+  now?: () => number
+}
+
+interface RoleCacheEntry {
+  userRoles: UserRoles
+  expiry: number
+}
+
+export const createRoleCache = (
+  store: RoleCacheStore,
+  {
+    ttlSeconds = 60,
+    pollSeconds = 5,
+    maxEntries = 1000,
+    now = Date.now,
+  }: RoleCacheOptions = {}
+) => {
+  const entries = new Map<string, RoleCacheEntry>()
+  let modified: number | undefined
+  let lastPoll = -Infinity
+
+  // Failing to reach the store just means entries live out their TTL
+  const poll = async () => {
+    if (now() - lastPoll < pollSeconds * 1000) return
+    lastPoll = now()
+    try {
+      const current = await store.modified()
+      if (modified !== undefined && current !== modified) {
+        entries.clear()
+      }
+      modified = current
+    } catch (e) {
+      // keep serving from the cache
+    }
+  }
+
+  return {
+    async get(uid: string): Promise<UserRoles | undefined> {
+      await poll()
+      const entry = entries.get(uid)
+      if (entry && entry.expiry > now()) {
+        return entry.userRoles
+      }
+      entries.delete(uid)
+      return undefined
+    },
+
+    set(uid: string, userRoles: UserRoles): void {
+      // Maps iterate in insertion order, so the first key is the oldest
+      if (entries.size >= maxEntries && !entries.has(uid)) {
+        entries.delete(entries.keys().next().value as string)
+      }
+      entries.set(uid, { userRoles, expiry: now() + ttlSeconds * 1000 })
+    },
+
+    // Whether claims were synced after the last role write we know of
+    async claimsAreFresh(claims: RoleClaims): Promise<boolean> {
+      await poll()
+      return (
+        Array.isArray(claims.roles) &&
+        typeof claims.rolesSynced === 'number' &&
+        modified !== undefined &&
+        claims.rolesSynced > modified
+      )
+    },
+
+    // Call after writing a role record
+    async invalidate(): Promise<void> {
+      entries.clear()
+      modified = now()
+      await store.touch(modified)
+    },
+
+    size(): number {
+      return entries.size
+    },
+  }
+}
+
+export type RoleCache = ReturnType<typeof createRoleCache>
@@ -0,0 +1,91 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import {
+  absoluteURL,
+  blogPostingLD,
+  breadcrumbLD,
+  imageDimensions,
+  jsonLD,
+  originFor,
+  storedImagePath,
+} from './seo'
+
+const origin = 'https://example.com'
+
+test('paths are resolved against the origin', () => {
+  expect(originFor('example.com')).toBe(origin)
+  expect(originFor('http://localhost:5000')).toBe('http://localhost:5000')
+  expect(absoluteURL(origin, '/blog/hello')).toBe(`${origin}/blog/hello`)
+  expect(absoluteURL(`${origin}/`, 'logo.png')).toBe(`${origin}/logo.png`)
+  expect(absoluteURL(origin, 'https://cdn.example.com/x.png')).toBe(
+    'https://cdn.example.com/x.png'
+  )
+  expect(absoluteURL('', '/blog')).toBe('/blog')
+})
+
+test('posts are described as BlogPostings', () => {
+  const posting = blogPostingLD(
+    origin,
+    {
+      title: 'Hello',
+      content: '',
+      summary: 'A greeting',
+      date: '2024-01-31T00:00:00.000Z',
+      author: 'Jane',
+      keywords: 'greetings',
+    },
+    '/blog/hello',
+    '/stored/blog/hello.webp'
+  )
+  expect(posting).toEqual({
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: 'Hello',
+    description: 'A greeting',
+    datePublished: '2024-01-31T00:00:00.000Z',
+    dateModified: '2024-01-31T00:00:00.000Z',
+    author: { '@type': 'Person', name: 'Jane' },
+    image: `${origin}/stored/blog/hello.webp`,
+    keywords: 'greetings',
+    mainEntityOfPage: { '@type': 'WebPage', '@id': `${origin}/blog/hello` },
+  })
+  expect(
+    Object.keys(blogPostingLD(origin, { title: 'Draft', content: '' }, '/x'))
+  ).toEqual(['@context', '@type', 'headline', 'mainEntityOfPage'])
+})
+
+test('breadcrumbs are numbered from the home page', () => {
+  const { itemListElement } = breadcrumbLD(origin, [
+    { name: 'Home', url: '/' },
+    { name: 'Blog', url: '/blog' },
+  ]) as { itemListElement: unknown[] }
+  expect(itemListElement).toEqual([
+    { '@type': 'ListItem', position: 1, name: 'Home', item: `${origin}/` },
+    { '@type': 'ListItem', position: 2, name: 'Blog', item: `${origin}/blog` },
+  ])
+})
+
+test('JSON-LD cannot close its script tag', () => {
+  expect(jsonLD({ headline: '</script><script>alert(1)' })).toBe(
+    '{"headline":"\\u003c/script>\\u003cscript>alert(1)"}'
+  )
+})
+
+test('stored image sizes come from their metadata', () => {
+  expect(storedImagePath('/stored/blog/my%20cat.webp?x=1')).toBe(
+    'blog/my cat.webp'
+  )
+  expect(storedImagePath(`${origin}/stored/blog/a.png`, origin)).toBe(
+    'blog/a.png'
+  )
+  expect(storedImagePath('/logo.png')).toBeUndefined()
+  expect(storedImagePath('/stored/%2e%2e/secret')).toBeUndefined()
+  expect(storedImagePath('/stored/%zz')).toBeUndefined()
+  expect(imageDimensions({ width: '1200', height: '630' })).toEqual({
+    width: 1200,
+    height: 630,
+  })
+  expect(imageDimensions({ width: '1200' })).toBeUndefined()
+  expect(imageDimensions(undefined)).toBeUndefined()
+})
@@ -0,0 +1,126 @@
+/**
+ * # structured data and social metadata
+ *
+ * Search engines read [schema.org](https://schema.org) JSON-LD from a page's
+ * `<script type="application/ld+json">` tags, and link previews read Open
+ * Graph and Twitter card `<meta>` tags. `prefetch` renders both from the
+ * `PageOptions` its handlers fill in; these build the JSON-LD they contribute:
+ *
+ * - `webSiteLD` for the site (added by the page handler)
+ * - `breadcrumbLD` for the trail from the home page to the current page
+ * - `blogPostingLD` for blog posts
+ *
+ * schema.org wants absolute URLs, so the builders resolve paths against the
+ * site's origin (from `config/app`'s `host`).
+ */
+
+import { Post } from '../shared/post'
+
+export interface Breadcrumb {
+  name: string
+  url: string
+}
+
+export type StructuredData = { [key: string]: unknown }
+
+const SCHEMA_CONTEXT = 'https://schema.org'
+
+// Resolves a path against the origin (absolute URLs are left alone)
+export const absoluteURL = (origin: string, url: string): string =>
+  /^[a-z][a-z\d+.-]*:/i.test(url) || !origin
+    ? url
+    : `${origin.replace(/\/$/, '')}/${url.replace(/^\//, '')}`
+
+// The origin for a host, as in sitemap.ts
+export const originFor = (host?: string): string =>
+  host ? (host.includes('://') ? host : `https://${host}`) : ''
+
+export const webSiteLD = (
+  origin: string,
+  name: string,
+  description?: string
+): StructuredData => ({
+  '@context': SCHEMA_CONTEXT,
+  '@type': 'WebSite',
+  name,
+  ...(description ? { description } : {}),
+  url: absoluteURL(origin, '/'),
+})
+
+export const breadcrumbLD = (
+  origin: string,
+  crumbs: Breadcrumb[]
+): StructuredData => ({
+  '@context': SCHEMA_CONTEXT,
+  '@type': 'BreadcrumbList',
+  itemListElement: crumbs.map(({ name, url }, index) => ({
+    '@type': 'ListItem',
+    position: index + 1,
+    name,
+    item: absoluteURL(origin, url),
+  })),
+})
+
+export const blogPostingLD = (
+  origin: string,
+  post: Post,
+  url: string,
+  imageUrl?: string
+): StructuredData => {
+  const image = imageUrl || post.imageUrl
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'BlogPosting',
+    headline: post.title,
+    ...(post.summary ? { description: post.summary } : {}),
+    ...(post.date ? { datePublished: post.date } : {}),
+    ...(post._modified || post.date
+      ? { dateModified: post._modified || post.date }
+      : {}),
+    ...(post.author
+      ? { author: { '@type': 'Person', name: post.author } }
+      : {}),
+    ...(image ? { image: absoluteURL(origin, image) } : {}),
+    ...(post.keywords ? { keywords: post.keywords } : {}),
+    mainEntityOfPage: {
+      '@type': 'WebPage',
+      '@id': absoluteURL(origin, url),
+    },
+  }
+}
+
+// The content of a JSON-LD script tag (escaping < so that data can't close it)
+export const jsonLD = (data: StructuredData): string =>
+  JSON.stringify(data).replace(/</g, '\\u003c')
+
+// The path in Cloud Storage of an image served by /stored, if it is one
+export const storedImagePath = (
+  imageUrl: string,
+  origin = ''
+): string | undefined => {
+  const local =
+    origin && imageUrl.startsWith(origin)
+      ? imageUrl.substring(origin.length)
+      : imageUrl
+  const [, encoded] = local.match(/^\/stored\/([^?#]+)/) || []
+  try {
+    const path = encoded && decodeURIComponent(encoded)
+    return path && !path.includes('..') ? path : undefined
+  } catch {
+    return undefined // malformed escapes
+  }
+}
+
+// The width and height that uploads record in a file's custom metadata
+export const imageDimensions = (metadata?: {
+  [key: string]: unknown
+}): { width: number; height: number } | undefined => {
+  const width = Number(metadata?.width)
+  const height = Number(metadata?.height)
+  return Number.isInteger(width) &&
+    Number.isInteger(height) &&
+    width > 0 &&
+    height > 0
+    ? { width, height }
+    : undefined
+}
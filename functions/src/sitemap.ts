@@ -37,6 +37,9 @@ export const sitemap = onRequest({}, async (req, res) => {
 
   stream.on('data', (docSnap: FirebaseFirestore.QueryDocumentSnapshot) => {
     const post = docSnap.data()
+    if (post._deleted === true) {
+      return // in the trash
+    }
     const date = new Date(post.date)
     postUrls.push(
       `https://${host}/blog/${date.getFullYear()}/${date.getMonth()}/${date.getDate()}/${
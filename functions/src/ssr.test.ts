@@ -0,0 +1,69 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import { renderPage, renderPost, safeURL, sanitizeHTML } from './ssr'
+import { emptyPage } from '../shared/page'
+
+test('scripts, handlers, and unknown tags are removed', () => {
+  expect(
+    sanitizeHTML(
+      '<p onclick="steal()" class="lede">Hi<script>steal()</script></p>' +
+        '<style>p { display: none }</style><!-- note -->' +
+        '<xin-blog><b style="color: red">there</b></xin-blog>'
+    )
+  ).toBe('<p class="lede">Hi</p><b>there</b>')
+  expect(sanitizeHTML('<img src=x onerror=alert(1)>')).toBe('<img src="x">')
+  expect(sanitizeHTML('<SCRIPT>alert(1)</SCRIPT >ok')).toBe('ok')
+  expect(sanitizeHTML('<iframe src="/x">')).toBe('')
+})
+
+test('stray brackets are escaped', () => {
+  expect(sanitizeHTML('1 < 2 &amp; 3 > 2')).toBe('1 &lt; 2 &amp; 3 &gt; 2')
+  // (as in browsers, a bracket inside a tag is part of an attribute name)
+  expect(sanitizeHTML('<a href="x" <b>')).toBe('<a href="x">')
+  expect(sanitizeHTML('<a href="x')).toBe('&lt;a href="x')
+})
+
+test('links may not run script', () => {
+  expect(safeURL('/blog/post')).toBe(true)
+  expect(safeURL('https://example.com')).toBe(true)
+  expect(safeURL('mailto:jane@example.com')).toBe(true)
+  expect(safeURL('javascript:alert(1)')).toBe(false)
+  expect(safeURL(' JavaScript:alert(1)')).toBe(false)
+  expect(safeURL('java\tscript:alert(1)')).toBe(false)
+  expect(safeURL('javascript&colon;alert(1)')).toBe(false)
+  expect(safeURL('&#106;avascript:alert(1)')).toBe(false)
+  expect(safeURL('data:text/html,<script>alert(1)</script>')).toBe(false)
+  expect(
+    sanitizeHTML(
+      '<a href="javascript:alert(1)" title=\'"hi"\'>x</a><a href=/ok>ok</a>'
+    )
+  ).toBe('<a title="&quot;hi&quot;">x</a><a href="/ok">ok</a>')
+})
+
+test('markdown and html pages are rendered', () => {
+  expect(renderPage({ ...emptyPage, source: '# Hello\n\n*world*' })).toBe(
+    '<article data-prerendered="page"><h1>Hello</h1>\n<p><em>world</em></p>\n</article>'
+  )
+  expect(
+    renderPage({ ...emptyPage, source: '<p>hi<script>x()</script></p>' })
+  ).toBe('<article data-prerendered="page"><p>hi</p></article>')
+  // pages that are just components have nothing to render
+  expect(renderPage({ ...emptyPage, source: '<xin-blog></xin-blog>' })).toBe('')
+  expect(renderPage(emptyPage)).toBe('')
+})
+
+test('posts are rendered with their title, date, and author', () => {
+  expect(
+    renderPost({
+      title: 'Cats & <Dogs>',
+      content: 'It *rained*.<img src="javascript:x" alt="rain">',
+      date: '2024-01-31T23:00:00.000Z',
+      author: 'Jane',
+    })
+  ).toBe(
+    '<article data-prerendered="post"><header><h1>Cats &amp; &lt;Dogs&gt;</h1>' +
+      '<p><time datetime="2024-01-31T23:00:00.000Z">January 31, 2024</time> — Jane</p>' +
+      '</header><p>It <em>rained</em>.<img alt="rain"></p>\n</article>'
+  )
+})
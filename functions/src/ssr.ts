@@ -0,0 +1,247 @@
+/**
+ * # server-side rendering
+ *
+ * `prefetch` renders the current page (and blog post) into the body of the
+ * HTML it serves, so crawlers and readers without JavaScript see the content,
+ * and so there's something to see before `index.js` loads. The client's
+ * `XinPage` shows this markup until it has rendered the page itself.
+ *
+ * Pages and posts are written by people we trust only so far, so their HTML
+ * (including HTML embedded in markdown) is sanitized: only the tags and
+ * attributes listed here survive, links can't run script, and the content of
+ * tags like `<script>` and `<style>` is dropped.
+ */
+
+import { marked } from 'marked'
+import { elements, escapeHTML, escapeHTMLAttribute } from './elements'
+import { Page } from '../shared/page'
+import { Post } from '../shared/post'
+
+const ATTRIBUTES = ['class', 'title', 'lang', 'dir']
+
+// Allowed tags, and the attributes each allows beyond ATTRIBUTES
+const TAGS: { [tag: string]: string[] } = {
+  a: ['href', 'rel', 'target'],
+  abbr: [],
+  article: [],
+  aside: [],
+  audio: ['src', 'controls'],
+  b: [],
+  blockquote: ['cite'],
+  br: [],
+  caption: [],
+  cite: [],
+  code: [],
+  dd: [],
+  del: ['cite', 'datetime'],
+  details: ['open'],
+  dfn: [],
+  div: [],
+  dl: [],
+  dt: [],
+  em: [],
+  figcaption: [],
+  figure: [],
+  footer: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  header: [],
+  hr: [],
+  i: [],
+  img: ['src', 'alt', 'width', 'height', 'loading'],
+  ins: ['cite', 'datetime'],
+  kbd: [],
+  li: ['value'],
+  mark: [],
+  nav: [],
+  ol: ['start', 'reversed', 'type'],
+  p: [],
+  picture: [],
+  pre: [],
+  q: ['cite'],
+  s: [],
+  samp: [],
+  section: [],
+  small: [],
+  source: ['src', 'type', 'media'],
+  span: [],
+  strong: [],
+  sub: [],
+  summary: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ['colspan', 'rowspan'],
+  tfoot: [],
+  th: ['colspan', 'rowspan', 'scope'],
+  thead: [],
+  time: ['datetime'],
+  tr: [],
+  u: [],
+  ul: [],
+  var: [],
+  video: ['src', 'controls', 'poster', 'width', 'height'],
+}
+
+// Tags that are dropped along with everything in them
+const DROPPED = [
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'template',
+  'noscript',
+  'textarea',
+  'select',
+  'title',
+  'svg',
+  'math',
+]
+
+const URL_ATTRIBUTES = ['href', 'src', 'cite', 'poster']
+const URL_SCHEMES = ['http', 'https', 'mailto']
+
+const TAG =
+  /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g
+const ATTRIBUTE =
+  /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+
+// Browsers decode entities in attribute values before using them as URLs, so
+// javascript&#58;... is still javascript:
+const decodeEntities = (value: string): string =>
+  value.replace(
+    /&(#x[0-9a-f]+|#\d+|colon|tab|newline|amp|lt|gt|quot|apos);?/gi,
+    (entity, code: string) => {
+      const lower = code.toLowerCase()
+      if (lower.startsWith('#')) {
+        const codePoint = lower.startsWith('#x')
+          ? parseInt(lower.slice(2), 16)
+          : Number(lower.slice(1))
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : '\ufffd'
+      }
+      const named: { [name: string]: string } = {
+        colon: ':',
+        tab: '\t',
+        newline: '\n',
+        amp: '&',
+        lt: '<',
+        gt: '>',
+        quot: '"',
+        apos: "'",
+      }
+      return named[lower] ?? entity
+    }
+  )
+
+export const safeURL = (url: string): boolean => {
+  // eslint-disable-next-line no-control-regex
+  const stripped = decodeEntities(url).replace(/[\u0000- ]/g, '')
+  const [, scheme] = stripped.match(/^([a-z][a-z\d+.-]*):/i) || []
+  return scheme === undefined || URL_SCHEMES.includes(scheme.toLowerCase())
+}
+
+const sanitizeAttributes = (tag: string, attributes: string): string => {
+  const allowed = [...ATTRIBUTES, ...TAGS[tag]]
+  const kept: string[] = []
+  for (const [, rawName, ...values] of attributes.matchAll(ATTRIBUTE)) {
+    const name = rawName.toLowerCase()
+    const value = values.find((value) => value !== undefined)
+    if (!allowed.includes(name)) {
+      continue
+    }
+    if (value === undefined) {
+      kept.push(name)
+    } else if (!URL_ATTRIBUTES.includes(name) || safeURL(value)) {
+      kept.push(`${name}="${escapeHTMLAttribute(value)}"`)
+    }
+  }
+  return kept.map((attribute) => ` ${attribute}`).join('')
+}
+
+// Escapes stray angle brackets in text, leaving entities alone
+const sanitizeText = (text: string): string =>
+  text.replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+export const sanitizeHTML = (html: string): string => {
+  let sanitized = ''
+  let index = 0
+  TAG.lastIndex = 0
+  for (let match = TAG.exec(html); match; match = TAG.exec(html)) {
+    sanitized += sanitizeText(html.slice(index, match.index))
+    index = TAG.lastIndex
+    const [, closing, rawTag, attributes] = match
+    const tag = rawTag?.toLowerCase()
+    if (!tag) {
+      continue // a comment
+    }
+    if (DROPPED.includes(tag)) {
+      if (!closing) {
+        const end = new RegExp(`</${tag}\\s*>`, 'ig')
+        end.lastIndex = index
+        index = end.exec(html) ? end.lastIndex : html.length
+        TAG.lastIndex = index
+      }
+    } else if (TAGS[tag]) {
+      sanitized += closing
+        ? `</${tag}>`
+        : `<${tag}${sanitizeAttributes(tag, attributes)}>`
+    }
+  }
+  return sanitized + sanitizeText(html.slice(index))
+}
+
+// The same test the client's XinPage uses
+export const isMarkdown = (source: string): boolean => {
+  const start = source.trimStart()
+  return (
+    start.startsWith('#') || start.startsWith('---') || !start.startsWith('<')
+  )
+}
+
+export const renderMarkdown = (source: string): string =>
+  sanitizeHTML(marked.parse(source, { async: false }) as string)
+
+export const renderPage = (page: Page): string => {
+  const { source } = page
+  if (!source) {
+    return ''
+  }
+  const html = isMarkdown(source)
+    ? renderMarkdown(source)
+    : sanitizeHTML(source)
+  return html.trim() ? elements.article({ dataPrerendered: 'page' }, html) : ''
+}
+
+export const renderPost = (post: Post): string => {
+  const { article, header, h1, p, time } = elements
+  return article(
+    { dataPrerendered: 'post' },
+    header(
+      h1(escapeHTML(post.title || '')),
+      post.date
+        ? p(
+            time(
+              { datetime: post.date },
+              escapeHTML(
+                new Date(post.date).toLocaleDateString('en-US', {
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric',
+                  timeZone: 'UTC',
+                })
+              )
+            ),
+            post.author ? ` — ${escapeHTML(post.author)}` : ''
+          )
+        : ''
+    ),
+    renderMarkdown(post.content || '')
+  )
+}
@@ -10,8 +10,10 @@
 
 import * as functions from 'firebase-functions'
 import * as admin from 'firebase-admin'
-import { optionsResponse, getUserRoles } from './utilities'
-import { ROLES } from './collections/roles'
+import { optionsResponse, getUserRoles, logAudit } from './utilities'
+import { hasRole, ROLES, UserRoles } from './collections/roles'
+import { unscoped } from './collections/access'
+import { invalidateCache } from './doc'
 
 const db = admin.firestore()
 
@@ -79,7 +81,11 @@ async function pullState(req: any, res: any): Promise<void> {
  *
  * Writes documents to Firestore (upserts by _id)
  */
-async function pushState(req: any, res: any): Promise<void> {
+async function pushState(
+  req: any,
+  res: any,
+  userRoles: UserRoles
+): Promise<void> {
   const state: CollectionState = req.body
 
   if (!state || typeof state !== 'object') {
@@ -117,10 +123,16 @@ async function pushState(req: any, res: any): Promise<void> {
           _path: `${collectionName}/${docId}`,
         }
 
-        await db
-          .collection(collectionName)
-          .doc(docId)
-          .set(record, { merge: true })
+        const ref = db.collection(collectionName).doc(docId)
+        const before = (await ref.get()).data()
+        await ref.set(record, { merge: true })
+        await invalidateCache(ref)
+        await logAudit(userRoles, {
+          method: 'PATCH',
+          path: ref.path,
+          before,
+          after: { ...before, ...record },
+        })
         success++
       } catch (error: any) {
         functions.logger.error(
@@ -145,7 +157,11 @@ async function pushState(req: any, res: any): Promise<void> {
  * Deletes all documents from the specified collections.
  * Use with caution!
  */
-async function clearState(req: any, res: any): Promise<void> {
+async function clearState(
+  req: any,
+  res: any,
+  userRoles: UserRoles
+): Promise<void> {
   const collectionsParam = req.query.collections
 
   if (!collectionsParam) {
@@ -168,6 +184,14 @@ async function clearState(req: any, res: any): Promise<void> {
       })
 
       await batch.commit()
+      await Promise.all(snapshot.docs.map((doc) => invalidateCache(doc.ref)))
+      for (const doc of snapshot.docs) {
+        await logAudit(userRoles, {
+          method: 'DELETE',
+          path: doc.ref.path,
+          before: doc.data(),
+        })
+      }
       results[collectionName] = count
     } catch (error: any) {
       functions.logger.error(
@@ -188,7 +212,13 @@ export const state = functions.https.onRequest(async (req, res) => {
 
   // Check authorization - owner role required
   const userRoles = await getUserRoles(req)
-  if (!userRoles.roles.includes(ROLES.owner)) {
+  if (!hasRole(userRoles, ROLES.owner) || !unscoped(userRoles)) {
+    await logAudit(userRoles, {
+      method: req.method,
+      path: `state${req.path}`,
+      status: 403,
+      reason: userRoles.apiKey ? 'API key is scoped' : 'owner role required',
+    })
     res.status(403).json({ error: 'Owner role required' })
     return
   }
@@ -203,10 +233,10 @@ export const state = functions.https.onRequest(async (req, res) => {
         await pullState(req, res)
         break
       case 'push':
-        await pushState(req, res)
+        await pushState(req, res, userRoles)
         break
       case 'clear':
-        await clearState(req, res)
+        await clearState(req, res, userRoles)
         break
       default:
         res.status(400).json({
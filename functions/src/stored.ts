@@ -10,6 +10,9 @@
  * This allows embedding storage files directly in HTML without needing
  * to use the storage API to get signed URLs.
  *
+ * Files that have moved (or been removed) can be redirected (or answer 410)
+ * with rules in the `redirect` collection, see redirects.ts.
+ *
  * ## Caching Strategy
  * - Signed URLs expire after 1 hour
  * - Response includes Cache-Control header matching the URL expiration
@@ -26,7 +29,7 @@
 import { onRequest } from 'firebase-functions/v2/https'
 import * as admin from 'firebase-admin'
 
-import { optionsResponse } from './utilities'
+import { optionsResponse, redirected } from './utilities'
 import { getMimeType } from '../shared/mime-types'
 
 // Match the path after /stored/
@@ -38,12 +41,24 @@ const URL_EXPIRATION_MS = 60 * 60 * 1000
 // Cache duration slightly less than URL expiration to ensure valid URLs
 const CACHE_MAX_AGE_SECONDS = 55 * 60 // 55 minutes
 
+// A file in the default bucket (whose name comes from the Firebase config)
+export const storedFile = (filePath: string) => {
+  const projectId =
+    process.env.GCLOUD_PROJECT ||
+    (process.env.FIREBASE_CONFIG &&
+      JSON.parse(process.env.FIREBASE_CONFIG).projectId)
+  return admin.storage().bucket(`${projectId}.appspot.com`).file(filePath)
+}
+
 export const stored = onRequest({}, async (req, res) => {
   if (optionsResponse(req, res)) {
     return
   }
 
   const url = (req.headers['x-forwarded-url'] as string) || req.url
+  if (url && (await redirected(url, res))) {
+    return
+  }
   const match = url?.match(STORED_PATH_REGEX)
 
   if (!match) {
@@ -60,14 +75,7 @@ export const stored = onRequest({}, async (req, res) => {
   }
 
   try {
-    // Get the default bucket name from Firebase config
-    const projectId =
-      process.env.GCLOUD_PROJECT ||
-      (process.env.FIREBASE_CONFIG &&
-        JSON.parse(process.env.FIREBASE_CONFIG).projectId)
-    const bucketName = `${projectId}.appspot.com`
-    const bucket = admin.storage().bucket(bucketName)
-    const file = bucket.file(filePath)
+    const file = storedFile(filePath)
 
     // Check if file exists
     const [exists] = await file.exists()
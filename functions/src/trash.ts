@@ -0,0 +1,267 @@
+/**
+# /trash endpoint
+
+The trash for collections configured with `softDelete` (see
+`collections/access.ts`), where `DELETE /doc` leaves records marked `_deleted`.
+Only admin, developer, and owner roles that may also delete records from the
+collection can use it.
+
+## parameters
+- `p` (path) is a collection path (when listing) or a document path,
+  `collection/id`
+- `c` (count) limits the number of records listed (default is 100)
+
+## methods
+- `GET` with a collection path lists its trashed records, most recently
+  deleted first
+- `POST` with a document path restores the trashed record (it must still pass
+  the collection's `unique` checks)
+- `DELETE` with a document path permanently removes the trashed record, along
+  with its versions
+
+Trashed records are also purged by the scheduled `purgeTrash` function once
+they are older than the collection's `trashRetentionDays` (default 30).
+*/
+
+import { onRequest } from 'firebase-functions/v2/https'
+import { onSchedule } from 'firebase-functions/v2/scheduler'
+import * as admin from 'firebase-admin'
+import * as functions from 'firebase-functions'
+import compression from 'compression'
+import { Response } from 'express'
+
+import { optionsResponse, getUserRoles, logAudit } from './utilities'
+import {
+  collectionPath,
+  getMethodAccess,
+  withinScope,
+  ALL,
+  REST_METHOD,
+} from './collections/access'
+import { COLLECTIONS } from './collections'
+import { UserRoles } from './collections/roles'
+import {
+  getRef,
+  hasPrivilegedRole,
+  invalidateCache,
+  isDocRef,
+  isUnique,
+} from './doc'
+import { etagFor } from './etag'
+import { saveVersion } from './version-history'
+
+const compressResponse = compression()
+
+const DEFAULT_COUNT = 100
+const DEFAULT_RETENTION_DAYS = 30
+const DAY_IN_MS = 24 * 3600 * 1000
+
+type FirestoreDocRef = FirebaseFirestore.DocumentReference
+type Data = Record<string, unknown>
+
+const isTrashed = (data?: Data): boolean => data?._deleted === true
+
+const listTrash = async (
+  path: string,
+  count: number
+): Promise<Data[] | Error> => {
+  const ref = await getRef(path, true)
+  if (ref instanceof Error) {
+    return ref
+  }
+  // only trashed records have _deletedAt, so this needs no composite index
+  const snapshot = await (ref as FirebaseFirestore.Query)
+    .orderBy('_deletedAt', 'desc')
+    .limit(count)
+    .get()
+  return snapshot.docs
+    .filter((doc) => isTrashed(doc.data()))
+    .map((doc) => ({ ...doc.data(), _path: `${path}/${doc.id}` }))
+}
+
+const restore = async (
+  res: Response,
+  userRoles: UserRoles,
+  path: string,
+  ref: FirestoreDocRef
+): Promise<void> => {
+  const config = COLLECTIONS[collectionPath(path)]
+  const restored = await admin
+    .firestore()
+    .runTransaction(async (transaction): Promise<Data[] | Error> => {
+      const current = await transaction.get(ref)
+      const data = current.data()
+      if (!isTrashed(data)) {
+        return new Error(`${path} is not in the trash`)
+      }
+      for (const field of config.unique || []) {
+        if (!(await isUnique(path, field, (data as Data)[field], ref))) {
+          return new Error(`"${field}" is no longer unique`)
+        }
+      }
+      if (config.versioned) {
+        saveVersion(transaction, current)
+      }
+      const _modified = new Date().toJSON()
+      const { FieldValue } = admin.firestore
+      transaction.update(ref, {
+        _deleted: FieldValue.delete(),
+        _deletedBy: FieldValue.delete(),
+        _deletedAt: FieldValue.delete(),
+        _modified,
+      })
+      const after: Data = { ...data, _modified }
+      delete after._deleted
+      delete after._deletedBy
+      delete after._deletedAt
+      return [data as Data, after]
+    })
+  if (restored instanceof Error) {
+    res.status(400).send(restored.message)
+    return
+  }
+  const [before, after] = restored
+  await invalidateCache(ref)
+  await logAudit(userRoles, { method: 'POST', path: ref.path, before, after })
+  res.set('Access-Control-Expose-Headers', 'ETag')
+  res.set('ETag', etagFor(after._modified as string))
+  res.status(200).send(`restored ${path}`)
+}
+
+const purge = async (
+  res: Response,
+  userRoles: UserRoles,
+  path: string,
+  ref: FirestoreDocRef
+): Promise<void> => {
+  const current = await ref.get()
+  if (!isTrashed(current.data())) {
+    res.status(400).send(`${path} is not in the trash`)
+    return
+  }
+  await admin.firestore().recursiveDelete(ref)
+  await invalidateCache(ref)
+  await logAudit(userRoles, {
+    method: 'DELETE',
+    path: ref.path,
+    before: current.data(),
+  })
+  res.status(200).send(`purged ${path}`)
+}
+
+export const trash = onRequest({}, async (req, res) => {
+  if (optionsResponse(req, res, ['GET', 'POST', 'DELETE'])) {
+    return
+  }
+  const userRoles = await getUserRoles(req)
+
+  const path = (req.method === 'POST' ? req.body.p : req.query.p) as
+    | string
+    | undefined
+
+  if (!path) {
+    res.status(400).send('missing path')
+    return
+  }
+
+  const isCollection = path.split('/').length % 2 !== 0
+  if (isCollection !== (req.method === 'GET')) {
+    res.status(400).send('bad path')
+    return
+  }
+
+  const _collectionPath = collectionPath(path)
+  if (!COLLECTIONS[_collectionPath]?.softDelete) {
+    res.status(404).send('not found')
+    return
+  }
+
+  const access = getMethodAccess(
+    COLLECTIONS,
+    _collectionPath,
+    'DELETE',
+    userRoles
+  )
+  // (restoring writes the record, and listing lists the collection)
+  const method = { GET: 'LIST', POST: 'PUT', DELETE: 'DELETE' }[
+    req.method as string
+  ] as REST_METHOD
+  if (
+    access !== ALL ||
+    !hasPrivilegedRole(userRoles) ||
+    !withinScope(userRoles, _collectionPath, method)
+  ) {
+    await logAudit(userRoles, {
+      method: req.method,
+      path,
+      status: 403,
+      reason: 'forbidden',
+    })
+    res.status(403).send('forbidden')
+    return
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const count = Number(req.query.c) || DEFAULT_COUNT
+      const list = await listTrash(path, count)
+      if (list instanceof Error) {
+        res.status(404).send(list.message)
+        return
+      }
+      compressResponse(req, res, () => {
+        res.json(list)
+      })
+      return
+    }
+
+    const ref = await getRef(path)
+    if (ref instanceof Error) {
+      res.status(404).send(ref.message)
+      return
+    }
+    if (!isDocRef(ref)) {
+      res.status(400).send('invalid path')
+      return
+    }
+
+    if (req.method === 'POST') {
+      await restore(res, userRoles, path, ref)
+    } else if (req.method === 'DELETE') {
+      await purge(res, userRoles, path, ref)
+    } else {
+      res.status(400).send('bad request type')
+    }
+  } catch (e) {
+    functions.logger.error(`Error accessing trash for ${path}:`, e)
+    res.status(500).send('internal error')
+  }
+})
+
+// Permanently removes trashed records older than their collection's retention
+export const purgeTrash = onSchedule('every day 03:00', async () => {
+  const db = admin.firestore()
+  for (const [path, config] of Object.entries(COLLECTIONS)) {
+    if (!config.softDelete) {
+      continue
+    }
+    const days = config.trashRetentionDays ?? DEFAULT_RETENTION_DAYS
+    const cutoff = new Date(Date.now() - days * DAY_IN_MS).toJSON()
+    // sub-collections (e.g. post/comment) are found via a collection group
+    const query = path.includes('/')
+      ? db.collectionGroup(path.split('/').pop() as string)
+      : db.collection(path)
+    const snapshot = await query.where('_deletedAt', '<', cutoff).get()
+    let purged = 0
+    for (const doc of snapshot.docs) {
+      if (isTrashed(doc.data()) && collectionPath(doc.ref.path) === path) {
+        await db.recursiveDelete(doc.ref)
+        await invalidateCache(doc.ref)
+        purged += 1
+      }
+    }
+    if (purged) {
+      functions.logger.info(`Purged ${purged} trashed records from ${path}`)
+    }
+  }
+})
@@ -5,7 +5,33 @@ import { Request } from 'firebase-functions/v2/https'
 import { Response } from 'express'
 import { DecodedIdToken } from 'firebase-admin/auth'
 
-import { UserRoles, anonymousUser } from './collections/roles'
+import {
+  UserRoles,
+  anonymousUser,
+  hasRole,
+  isRoleRecordId,
+  mayViewAs,
+  ROLES,
+  viewAsRoles,
+} from './collections/roles'
+import { auditEntry, AuditEvent } from './audit-log'
+import { createRoleCache, RoleClaims } from './role-cache'
+import {
+  checkSlidingWindow,
+  createMemoryStore,
+  limitFor,
+  rateLimitKey,
+  RateLimitConfig,
+  RateLimitStore,
+} from './rate-limit'
+import {
+  ApiKey,
+  apiKeyFrom,
+  apiKeyRoles,
+  apiKeyUsable,
+  hashApiKey,
+} from './api-key'
+import { createRedirectCache, findRedirect, RedirectRule } from './redirects'
 
 admin.initializeApp()
 
@@ -61,20 +87,63 @@ async function logError(topic: string, message: string): Promise<void> {
   }
 }
 
-// Rate limiting configuration
-export interface RateLimitConfig {
-  windowMs: number // Time window in milliseconds
-  maxRequests: number // Maximum requests per window per IP
+// Records a change (or a refused request) in audit-log (see audit-log.ts)
+async function logAudit(
+  userRoles: UserRoles,
+  event: AuditEvent
+): Promise<void> {
+  const entry = auditEntry(userRoles, event)
+  try {
+    await admin.firestore().collection('audit-log').add(entry)
+  } catch (e) {
+    // Fallback to console if Firestore logging fails
+    functions.logger.error(
+      `[audit] ${entry.method} ${entry.path} ${entry.status}`,
+      e
+    )
+  }
 }
 
+// Rate limiting configuration (see rate-limit.ts)
+export type { RateLimitConfig }
+
 // Default rate limit: 100 requests per minute per IP
 export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 100,
 }
 
+// Reading and writing content (/doc, /docs, /batch): anonymous requests get
+// the default limit per IP, signed-in users more per uid, by role
+export const CONTENT_RATE_LIMIT: RateLimitConfig = {
+  ...DEFAULT_RATE_LIMIT,
+  roles: {
+    author: 300,
+    editor: 600,
+    admin: 1200,
+  },
+}
+
+// Requests made with an API key are limited per IP too, but separately (any
+// header could claim to be a key, so keys aren't trusted until they resolve)
+export const API_KEY_RATE_LIMIT: RateLimitConfig = {
+  windowMs: 60 * 1000,
+  maxRequests: 300,
+  name: 'api-key',
+}
+
+// Endpoints with role-based limits (see rateLimited) check this per IP before
+// verifying the caller, so token checks and key lookups are limited too; it's
+// as generous as the most privileged role's content limit
+export const PRE_AUTH_RATE_LIMIT: RateLimitConfig = {
+  windowMs: 60 * 1000,
+  maxRequests: 1200,
+  name: 'pre-auth',
+}
+
 // In-memory rate limit tracking (per function instance)
-// Key: IP address, Value: { count, windowStart }
+// Key: IP address (prefixed with the config's name, if any),
+// Value: { count, windowStart }
 const rateLimitMap = new Map<string, { count: number; windowStart: number }>()
 
 // Clean up old entries periodically (every 5 minutes)
@@ -113,16 +182,17 @@ function checkRateLimit(
   config: RateLimitConfig = DEFAULT_RATE_LIMIT
 ): boolean {
   const ip = getClientIP(req)
+  const key = config.name ? `${config.name}:${ip}` : ip
   const now = Date.now()
 
   // Cleanup old entries occasionally
   cleanupRateLimitMap(config.windowMs)
 
-  const entry = rateLimitMap.get(ip)
+  const entry = rateLimitMap.get(key)
 
   if (!entry || now - entry.windowStart >= config.windowMs) {
     // New window - reset count
-    rateLimitMap.set(ip, { count: 1, windowStart: now })
+    rateLimitMap.set(key, { count: 1, windowStart: now })
     return false // Not rate limited
   }
 
@@ -156,6 +226,70 @@ function checkRateLimit(
   return false // Not rate limited
 }
 
+// Sliding-window counts kept in Firestore, shared by every instance. Each
+// window's count is a document in rate-limit, with an expires field for a
+// Firestore TTL policy to clean up.
+const rateLimitStore: RateLimitStore = {
+  async hit(key, windowStart, windowMs) {
+    const db = admin.firestore()
+    const windowRef = (start: number) =>
+      db.collection('rate-limit').doc(`${key.replace(/\//g, '_')}@${start}`)
+    const ref = windowRef(windowStart)
+    await ref.set(
+      {
+        count: admin.firestore.FieldValue.increment(1),
+        expires: new Date(windowStart + 2 * windowMs),
+      },
+      { merge: true }
+    )
+    const [current, previous] = await db.getAll(
+      ref,
+      windowRef(windowStart - windowMs)
+    )
+    return {
+      current: (current.data()?.count as number) || 1,
+      previous: (previous.data()?.count as number) || 0,
+    }
+  },
+}
+
+const memoryRateLimitStore = createMemoryStore()
+
+// Applies an endpoint's rate limit once the caller's roles are known (see
+// rate-limit.ts); endpoints that use it pass PRE_AUTH_RATE_LIMIT to
+// optionsResponse. If the
+// config's store can't be reached, this instance's counts are used instead.
+async function rateLimited(
+  req: Request,
+  res: Response,
+  userRoles: UserRoles,
+  config: RateLimitConfig
+): Promise<boolean> {
+  const limit = limitFor(config, userRoles)
+  if (limit === false) {
+    return false
+  }
+  const key = rateLimitKey(config, userRoles, getClientIP(req))
+  const check = (store: RateLimitStore) =>
+    checkSlidingWindow(store, key, limit, config.windowMs)
+  let result
+  try {
+    result = await check(config.store || memoryRateLimitStore)
+  } catch (e) {
+    functions.logger.warn(`Rate limit store failed for ${key}:`, e)
+    result = await check(memoryRateLimitStore)
+  }
+
+  res.set('X-RateLimit-Limit', String(result.limit))
+  res.set('X-RateLimit-Remaining', String(result.remaining))
+  res.set('X-RateLimit-Reset', String(result.reset))
+  if (result.limited) {
+    res.set('Retry-After', String(result.retryAfter))
+    res.status(429).send('Too Many Requests')
+  }
+  return result.limited
+}
+
 function optionsResponse(
   req: Request,
   res: Response,
@@ -167,7 +301,10 @@ function optionsResponse(
 
   // Check rate limit first (skip for OPTIONS preflight requests)
   if (rateLimit !== false && method !== 'OPTIONS') {
-    if (checkRateLimit(req, res, rateLimit)) {
+    const limited = apiKeyFrom(req.headers.authorization)
+      ? checkRateLimit(req, res, API_KEY_RATE_LIMIT)
+      : checkRateLimit(req, res, rateLimit)
+    if (limited) {
       return true // Rate limited, response already sent
     }
   }
@@ -180,7 +317,7 @@ function optionsResponse(
     res.set('Access-Control-Allow-Credentials', 'true')
     res.set(
       'Access-Control-Allow-Headers',
-      'Content-Type, Authorization, Accept, Origin'
+      'Content-Type, Authorization, Accept, Origin, If-Match, X-View-As'
     )
     res.set('Access-Control-Max-Age', '3600')
     res.status(204).send('')
@@ -213,22 +350,104 @@ async function getUser(
   }
 }
 
-// Sync user roles to Firebase Auth custom claims for use in Storage rules
+// Roles resolved by getUserRoles (for users and API keys) are cached per
+// instance (see role-cache.ts). Other instances learn of role and API key
+// writes via the time of the last one.
+const ROLE_CACHE_PATH = 'config/role-cache'
+
+const roleCache = createRoleCache({
+  async modified() {
+    const doc = await admin.firestore().doc(ROLE_CACHE_PATH).get()
+    return (doc.data()?.modified as number) || 0
+  },
+  async touch(modified) {
+    await admin.firestore().doc(ROLE_CACHE_PATH).set({ modified })
+  },
+})
+
+// Call after writing (or deleting) a role record or API key, so that no
+// instance keeps granting the old roles
+async function invalidateRoles(): Promise<void> {
+  try {
+    await roleCache.invalidate()
+  } catch (e) {
+    functions.logger.warn('Failed to invalidate cached roles:', e)
+  }
+}
+
+// Rules from the redirect collection, cached per instance (see redirects.ts)
+const redirectCache = createRedirectCache(async () => {
+  const snapshot = await admin.firestore().collection('redirect').get()
+  return snapshot.docs.map(
+    (doc) => ({ ...doc.data(), _id: doc.id } as RedirectRule)
+  )
+})
+
+// Call after writing (or deleting) a redirect rule
+function invalidateRedirects(): void {
+  redirectCache.invalidate()
+}
+
+// Sends a redirect (or 410) if a rule matches url, and records the hit
+// without waiting for it
+async function redirected(url: string, res: Response): Promise<boolean> {
+  let match
+  try {
+    match = findRedirect(await redirectCache.rules(), url)
+  } catch (e) {
+    functions.logger.warn('Failed to load redirect rules:', e)
+    return false
+  }
+  if (!match) {
+    return false
+  }
+  const rule: RedirectRule = match.rule
+  if (match.location === undefined) {
+    res.status(410).send('Gone')
+  } else {
+    res.redirect(match.status, match.location)
+  }
+  admin
+    .firestore()
+    .collection('redirect')
+    .doc(rule._id)
+    .update({
+      hits: admin.firestore.FieldValue.increment(1),
+      lastHit: timestamp(),
+    })
+    .catch((e) =>
+      functions.logger.warn(`Failed to count hit on redirect ${rule._id}:`, e)
+    )
+  return true
+}
+
+// Sync user roles to Firebase Auth custom claims for use in Storage rules, and
+// as a fast path for getUserRoles while they're fresh
 async function syncRolesToCustomClaims(
   uid: string,
+  roleId: string | undefined,
   roles: string[]
 ): Promise<void> {
   try {
     // Get current custom claims
     const userRecord = await admin.auth().getUser(uid)
-    const currentClaims = userRecord.customClaims || {}
-    const currentRoles = currentClaims.roles || []
-
-    // Only update if roles have changed
-    if (JSON.stringify(currentRoles.sort()) !== JSON.stringify(roles.sort())) {
+    const currentClaims = { ...userRecord.customClaims }
+    const currentRoles: string[] = currentClaims.roles || []
+
+    // Only update if the roles have changed, or the claims predate the last
+    // role write (so they'd never count as fresh again)
+    if (
+      JSON.stringify([...currentRoles].sort()) !==
+        JSON.stringify([...roles].sort()) ||
+      currentClaims.roleId !== roleId ||
+      !(await roleCache.claimsAreFresh(currentClaims))
+    ) {
+      delete currentClaims.roleId
       await admin.auth().setCustomUserClaims(uid, {
         ...currentClaims,
         roles,
+        ...(roleId ? { roleId } : {}),
+        rolesSynced: Date.now(),
       })
     }
   } catch (e) {
@@ -240,12 +459,93 @@ async function syncRolesToCustomClaims(
   }
 }
 
+// Keys that weren't found (or are revoked or expired), remembered briefly so
+// that guessing doesn't cost a query each time
+const unknownApiKeys = new Map<string, number>()
+const UNKNOWN_API_KEY_TTL = 60 * 1000
+const MAX_UNKNOWN_API_KEYS = 10000
+
+// When each API key's lastUsed was last recorded by this instance
+const apiKeyUseRecorded = new Map<string, number>()
+const API_KEY_USE_INTERVAL = 60 * 1000
+
+// The roles of an API key (see api-key.ts), cached alongside users' roles;
+// unknown, revoked, and expired keys get anonymous access
+async function getApiKeyRoles(key: string): Promise<UserRoles> {
+  const keyHash = hashApiKey(key)
+  let userRoles = await roleCache.get(`api-key:${keyHash}`)
+  if (!userRoles) {
+    if ((unknownApiKeys.get(keyHash) || 0) > Date.now()) {
+      return anonymousUser
+    }
+    const [record] = await getRecords<ApiKey & FirestoreDoc>(
+      'api-key',
+      'keyHash',
+      '==',
+      keyHash,
+      1
+    )
+    if (!record?._id || !apiKeyUsable(record)) {
+      functions.logger.warn('Unknown, revoked, or expired API key used')
+      if (unknownApiKeys.size >= MAX_UNKNOWN_API_KEYS) {
+        unknownApiKeys.clear()
+      }
+      unknownApiKeys.set(keyHash, Date.now() + UNKNOWN_API_KEY_TTL)
+      return anonymousUser
+    }
+    userRoles = apiKeyRoles(record._id, record)
+    roleCache.set(`api-key:${keyHash}`, userRoles)
+  }
+
+  // Record when the key was last used (at most once a minute per instance)
+  const id = userRoles._id as string
+  if (Date.now() - (apiKeyUseRecorded.get(id) || 0) > API_KEY_USE_INTERVAL) {
+    apiKeyUseRecorded.set(id, Date.now())
+    try {
+      await admin
+        .firestore()
+        .collection('api-key')
+        .doc(id)
+        .update({ lastUsed: timestamp() })
+    } catch (e) {
+      functions.logger.warn(`Failed to record use of API key ${id}:`, e)
+    }
+  }
+  return userRoles
+}
+
 async function getUserRoles(req: AuthenticatedRequest): Promise<UserRoles> {
+  const apiKey = apiKeyFrom(req.headers.authorization)
+  if (apiKey) {
+    return getApiKeyRoles(apiKey)
+  }
+
   const user = await getUser(req)
   if (!user) {
     return anonymousUser
   }
 
+  let userRole = await roleCache.get(user.uid)
+  if (!userRole) {
+    const claims = user as RoleClaims
+    userRole = (await roleCache.claimsAreFresh(claims))
+      ? {
+          // the claims only carry the role record's id and roles
+          ...anonymousUser,
+          _id: claims.roleId,
+          name: user.name || 'unknown',
+          roles: claims.roles as UserRoles['roles'],
+          userIds: [user.uid],
+          uid: user.uid,
+        }
+      : await lookUpUserRoles(user)
+    roleCache.set(user.uid, userRole)
+  }
+  return viewAs(req, userRole)
+}
+
+// Finds the role record for a user, syncing their custom claims to it
+async function lookUpUserRoles(user: DecodedIdToken): Promise<UserRoles> {
   // First, try to find role by userIds (fast path)
   let roles = await getRecords<RoleDoc>(
     'role',
@@ -306,17 +606,65 @@ async function getUserRoles(req: AuthenticatedRequest): Promise<UserRoles> {
         })),
         roles: (firstRole.roles || []) as UserRoles['roles'],
         userIds: firstRole.userIds || [],
+        uid: user.uid,
       }
-    : anonymousUser
+    : { ...anonymousUser, uid: user.uid }
 
-  // Sync roles to custom claims for Storage rules enforcement
-  if (userRole !== anonymousUser && userRole.roles?.length > 0) {
-    await syncRolesToCustomClaims(user.uid, userRole.roles)
+  // Sync roles to custom claims for Storage rules enforcement (and clear
+  // them for users who no longer have a role record)
+  if (firstRole || (user as RoleClaims).roles) {
+    await syncRolesToCustomClaims(user.uid, userRole._id, userRole.roles)
   }
 
   return userRole
 }
 
+// requests whose impersonation has been audit-logged (getUserRoles may be
+// called more than once per request)
+const viewAsLogged = new WeakSet<object>()
+
+// Admins (and up) can preview the site with fewer roles by sending an
+// X-View-As header naming roles ("author,editor") or a role record id.
+// The downgrade lasts for that request only, keeps the caller's uid, and is
+// audit-logged; asking for roles the caller doesn't hold is refused (and
+// logged) and the caller's own roles are used.
+async function viewAs(
+  req: AuthenticatedRequest,
+  userRoles: UserRoles
+): Promise<UserRoles> {
+  const header = req.get('X-View-As')?.trim()
+  if (!header) {
+    return userRoles
+  }
+  let roles: string[] | undefined = viewAsRoles(header)
+  if (!roles && hasRole(userRoles, ROLES.admin) && isRoleRecordId(header)) {
+    try {
+      const role = await getRecord<RoleDoc>('role', header)
+      roles = role && (role.roles || [])
+    } catch (e) {
+      functions.logger.warn(`Failed to look up role ${header} to view as:`, e)
+    }
+  }
+  const allowed = roles !== undefined && mayViewAs(userRoles, roles)
+
+  if (!viewAsLogged.has(req)) {
+    viewAsLogged.add(req)
+    await logAudit(userRoles, {
+      method: req.method,
+      path: String(req.query.p || req.body?.p || req.path),
+      status: allowed ? 200 : 403,
+      reason: allowed ? `view as ${header}` : `may not view as ${header}`,
+    })
+  }
+  return allowed
+    ? {
+        ...userRoles,
+        roles: roles as UserRoles['roles'],
+        viewingAs: header,
+      }
+    : userRoles
+}
+
 const DAY_IN_MS = 24 * 3600 * 1000
 function timestamp(addDays = 0): string {
   return addDays === 0
@@ -487,7 +835,8 @@ function createLinkToken(days = 3): LinkToken {
   expires.setDate(expires.getDate() + days)
   return {
     expires: expires.toISOString(),
-    token: ('00' + crypto.randomInt(Math.pow(36, 9)).toString(36)).slice(-8),
+    // (these grant roles, so they need to be as hard to guess as API keys)
+    token: crypto.randomBytes(32).toString('base64url'),
   }
 }
 
@@ -512,8 +861,14 @@ export {
   optionsResponse,
   getUser,
   getUserRoles,
+  invalidateRoles,
+  invalidateRedirects,
+  redirected,
+  rateLimited,
+  rateLimitStore,
   timestamp,
   logError,
+  logAudit,
   getRecord,
   getVersion,
   getRecords,
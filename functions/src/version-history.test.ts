@@ -0,0 +1,45 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import { diffRecords, stripVersionFields, versionId } from './version-history'
+
+test('version ids are the previous _modified time in ms', () => {
+  expect(versionId({ _modified: '2024-01-01T00:00:00.000Z' })).toBe(
+    String(Date.parse('2024-01-01T00:00:00.000Z'))
+  )
+  expect(Number(versionId({}))).toBeGreaterThan(0)
+})
+
+test('version fields are stripped before restoring', () => {
+  expect(
+    stripVersionFields({
+      title: 'hello',
+      _modified: '2024-01-01T00:00:00.000Z',
+      _timestamp: 1704067200000,
+      _version_note_: 'before the rewrite',
+    })
+  ).toEqual({ title: 'hello', _modified: '2024-01-01T00:00:00.000Z' })
+})
+
+test('diff lists changed, added, and removed fields', () => {
+  expect(
+    diffRecords(
+      { title: 'old', tags: ['a'], summary: 'same', draft: true },
+      { title: 'new', tags: ['a', 'b'], summary: 'same', date: '2024' }
+    )
+  ).toEqual({
+    title: { from: 'old', to: 'new' },
+    tags: { from: ['a'], to: ['a', 'b'] },
+    draft: { from: true, to: undefined },
+    date: { from: undefined, to: '2024' },
+  })
+})
+
+test('diff ignores version bookkeeping', () => {
+  expect(
+    diffRecords(
+      { title: 'same', _timestamp: 1, _version_note_: 'x' },
+      { title: 'same', _timestamp: 2 }
+    )
+  ).toEqual({})
+})
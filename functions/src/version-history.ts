@@ -0,0 +1,65 @@
+/**
+ * # Version history
+ *
+ * Helpers for collections with `versioned: true`. Before a record is changed
+ * or deleted, the previous version is copied into its `versions`
+ * subcollection, keyed by that version's `_modified` time (as milliseconds,
+ * the same ids the client's `setRecord` uses).
+ */
+
+// Fields added to version records that aren't part of the record itself
+export const VERSION_FIELDS = ['_timestamp', '_version_note_']
+
+export const versionId = (data: Record<string, unknown>): string => {
+  const modified = Date.parse(data._modified as string)
+  return String(isNaN(modified) ? Date.now() : modified)
+}
+
+// Must be called before the transaction writes to the record
+export const saveVersion = (
+  transaction: FirebaseFirestore.Transaction,
+  previous: FirebaseFirestore.DocumentSnapshot
+): void => {
+  const data = previous.data()
+  if (!previous.exists || data === undefined) {
+    return
+  }
+  transaction.set(previous.ref.collection('versions').doc(versionId(data)), {
+    ...data,
+    _timestamp: Date.now(),
+  })
+}
+
+export const stripVersionFields = (
+  version: Record<string, unknown>
+): Record<string, unknown> => {
+  const data = { ...version }
+  for (const field of VERSION_FIELDS) {
+    delete data[field]
+  }
+  return data
+}
+
+export interface FieldChange {
+  from: unknown
+  to: unknown
+}
+
+// Lists the top-level fields whose values differ (deeply) between two records
+export const diffRecords = (
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+  ignore: string[] = VERSION_FIELDS
+): Record<string, FieldChange> => {
+  const changes: Record<string, FieldChange> = {}
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)])
+  for (const field of fields) {
+    if (ignore.includes(field)) {
+      continue
+    }
+    if (JSON.stringify(from[field]) !== JSON.stringify(to[field])) {
+      changes[field] = { from: from[field], to: to[field] }
+    }
+  }
+  return changes
+}
@@ -0,0 +1,275 @@
+/**
+# /versions endpoint
+
+Version history for collections configured with `versioned: true` (see
+`version-history.ts`).
+
+## parameters
+- `p` (path) is the document path, `collection/id` or `collection/field=value`
+- `v` is a version id (as listed), or `current` for the record as it is now
+  (not found if it's in the trash)
+- `against` is a second version id to diff `v` against
+- `c` (count) limits the number of versions listed (default is 20, and at most
+  1000)
+
+## methods
+- `GET` with `p` lists versions, newest first
+- `GET` with `p` and `v` returns that version
+- `GET` with `p`, `v`, and `against` returns the fields that changed from `v`
+  to `against`
+- `POST` with `p` and `v` restores that version; the record being replaced is
+  versioned first, so a restore can itself be undone (a record in the trash
+  has to be restored from `/trash` first)
+
+Listing, fetching, and diffing need `read` access to the collection, and
+versions pass through the same read filters as `GET /doc`. Restoring needs
+`write` access and gets the usual schema, `validate`, and `unique` checks.
+*/
+
+import { onRequest } from 'firebase-functions/v2/https'
+import * as admin from 'firebase-admin'
+import * as functions from 'firebase-functions'
+import compression from 'compression'
+import { Response } from 'express'
+
+import { optionsResponse, getUserRoles, logAudit } from './utilities'
+import {
+  collectionPath,
+  getMethodAccess,
+  ALL,
+  AccessFilterFunc,
+} from './collections/access'
+import { COLLECTIONS } from './collections'
+import { UserRoles } from './collections/roles'
+import { getRef, invalidateCache, isDocRef, isLive, prepareWrite } from './doc'
+import { etagFor } from './etag'
+import { diffRecords, saveVersion, stripVersionFields } from './version-history'
+
+const compressResponse = compression()
+
+const DEFAULT_COUNT = 20
+const MAX_COUNT = 1000
+
+type FirestoreDocRef = FirebaseFirestore.DocumentReference
+type Data = Record<string, unknown>
+
+interface VersionParams {
+  p?: string
+  v?: string
+  against?: string
+  c?: string
+}
+
+// Applies read access to a version the same way GET /doc does
+const readable = async (
+  access: typeof ALL | AccessFilterFunc,
+  data: Data,
+  userRoles: UserRoles
+): Promise<Data | Error> =>
+  access === ALL ? data : await access(data, userRoles)
+
+const getVersionData = async (
+  ref: FirestoreDocRef,
+  v: string
+): Promise<Data | undefined> => {
+  if (v === 'current') {
+    const snapshot = await ref.get()
+    return isLive(snapshot) ? snapshot.data() : undefined
+  }
+  const snapshot = await ref.collection('versions').doc(v).get()
+  return snapshot.data()
+}
+
+const listVersions = async (
+  ref: FirestoreDocRef,
+  access: typeof ALL | AccessFilterFunc,
+  userRoles: UserRoles,
+  count: number
+): Promise<Data[]> => {
+  const snapshot = await ref
+    .collection('versions')
+    .orderBy('_timestamp', 'desc')
+    .limit(count)
+    .get()
+  const list: Data[] = []
+  for (const doc of snapshot.docs) {
+    const data = doc.data()
+    if (!((await readable(access, data, userRoles)) instanceof Error)) {
+      list.push({
+        v: doc.id,
+        _modified: data._modified,
+        _timestamp: data._timestamp,
+        _version_note_: data._version_note_,
+      })
+    }
+  }
+  return list
+}
+
+const restoreVersion = async (
+  res: Response,
+  userRoles: UserRoles,
+  path: string,
+  ref: FirestoreDocRef,
+  v: string
+): Promise<void> => {
+  const version = await getVersionData(ref, v)
+  if (version === undefined || v === 'current') {
+    res.status(404).send(`no version ${v} of ${path}`)
+    return
+  }
+  const current = await ref.get()
+  // only /trash restores trashed records
+  if (current.exists && !isLive(current)) {
+    res.status(409).send(`${path} is in the trash; restore it first`)
+    return
+  }
+  const method = current.exists ? 'PUT' : 'POST'
+  const access = getMethodAccess(
+    COLLECTIONS,
+    collectionPath(path),
+    method,
+    userRoles
+  )
+  if (!access) {
+    await logAudit(userRoles, {
+      method,
+      path: ref.path,
+      status: 403,
+      reason: 'forbidden',
+    })
+    res.status(403).send('forbidden')
+    return
+  }
+
+  const prepared = await prepareWrite(
+    method,
+    path,
+    ref,
+    current,
+    stripVersionFields(version),
+    access,
+    userRoles
+  )
+  if (!prepared.ok) {
+    if (prepared.status === 403) {
+      await logAudit(userRoles, {
+        method,
+        path: ref.path,
+        status: 403,
+        reason: prepared.reason,
+      })
+    }
+    if (prepared.details) {
+      res
+        .status(prepared.status)
+        .json({ error: prepared.reason, details: prepared.details })
+    } else {
+      res.status(prepared.status).send(prepared.reason)
+    }
+    return
+  }
+  const data = prepared.data as Data
+
+  const before = await admin.firestore().runTransaction(async (transaction) => {
+    const previous = await transaction.get(ref)
+    saveVersion(transaction, previous)
+    transaction.set(ref, data)
+    return previous.data()
+  })
+  await invalidateCache(ref)
+  await logAudit(userRoles, { method, path: ref.path, before, after: data })
+  res.set('Access-Control-Expose-Headers', 'ETag')
+  res.set('ETag', etagFor(data._modified as string))
+  res.status(200).send(`restored ${path} to version ${v}`)
+}
+
+export const versions = onRequest({}, async (req, res) => {
+  if (optionsResponse(req, res, ['GET', 'POST'])) {
+    return
+  }
+  const userRoles = await getUserRoles(req)
+
+  const params = (req.method === 'GET' ? req.query : req.body) as VersionParams
+  const { p: path, v, against } = params
+
+  if (!path) {
+    res.status(400).send('missing path')
+    return
+  }
+  if (path.split('/').length % 2 !== 0) {
+    res.status(400).send('bad path')
+    return
+  }
+
+  const _collectionPath = collectionPath(path)
+  if (!COLLECTIONS[_collectionPath]?.versioned) {
+    res.status(404).send('not found')
+    return
+  }
+
+  const ref = await getRef(path)
+  if (ref instanceof Error) {
+    res.status(404).send(ref.message)
+    return
+  }
+  if (!isDocRef(ref)) {
+    res.status(400).send('invalid path')
+    return
+  }
+
+  try {
+    if (req.method === 'POST') {
+      if (!v) {
+        res.status(400).send('missing version')
+        return
+      }
+      await restoreVersion(res, userRoles, path, ref, v)
+      return
+    }
+
+    const access = getMethodAccess(
+      COLLECTIONS,
+      _collectionPath,
+      'GET',
+      userRoles
+    )
+    if (!access) {
+      res.status(403).send('forbidden')
+      return
+    }
+
+    if (!v) {
+      const count = Math.min(Number(params.c) || DEFAULT_COUNT, MAX_COUNT)
+      const list = await listVersions(ref, access, userRoles, count)
+      compressResponse(req, res, () => {
+        res.json(list)
+      })
+      return
+    }
+
+    const ids = against ? [v, against] : [v]
+    const found: Data[] = []
+    for (const id of ids) {
+      const data = await getVersionData(ref, id)
+      const filtered = data && (await readable(access, data, userRoles))
+      if (!filtered || filtered instanceof Error) {
+        res.status(404).send(`no version ${id} of ${path}`)
+        return
+      }
+      found.push(filtered)
+    }
+
+    const [from, to] = found
+    compressResponse(req, res, () => {
+      res.json(
+        to
+          ? { v, against, changes: diffRecords(from, to) }
+          : { ...from, _path: path, _version: v }
+      )
+    })
+  } catch (e) {
+    functions.logger.error(`Error accessing versions of ${path}:`, e)
+    res.status(500).send('internal error')
+  }
+})
@@ -0,0 +1,212 @@
+/**
+# /watch endpoint
+
+Streams changes to a collection or document as
+[server-sent events](https://developer.mozilla.org/en-US/docs/Web/API/Server-sent_events).
+
+## parameters
+- `p` (path) is a collection path (e.g. `post` or `page/tags=visible`) or a
+  document path, `collection/id`
+- `c` (count), `o` (order), and `q` (query) limit a collection as for `/docs`
+  (so `c` is at most 1000)
+
+## methods
+- `GET` opens the stream
+
+## events
+- `added`, `modified`, and `removed` carry a record (just `{ _path }` for
+  `removed`). The current records arrive first, as `added` events.
+- `sync` follows the current records, so a reconnecting client knows which of
+  the records it had are gone
+- `error` reports a failed query, after which the stream ends
+
+Records go through the same `list` (or, for a document, `read`) access as
+`/docs` and `/doc`, so records the user can't see are never sent, and a record
+that stops being visible is sent as `removed` (see `change-feed.ts`). Access is
+decided when the stream opens.
+
+Streams end before the function times out; clients should reconnect (as
+`syncRecords` in `src/firebase.ts` does).
+*/
+
+import { onRequest } from 'firebase-functions/v2/https'
+import * as functions from 'firebase-functions'
+
+import {
+  optionsResponse,
+  getUserRoles,
+  rateLimited,
+  CONTENT_RATE_LIMIT,
+  PRE_AUTH_RATE_LIMIT,
+  RateLimitConfig,
+} from './utilities'
+import { collectionPath, getMethodAccess, ALL } from './collections/access'
+import { COLLECTIONS } from './collections'
+import { getRef, isDocRef } from './doc'
+import { MAX_SCAN } from './docs'
+import { parseOrder, parseQuery } from './query'
+import { createChangeFeed, Change } from './change-feed'
+
+const WATCH_SECONDS = 540
+const HEARTBEAT_SECONDS = 25
+const DEFAULT_COUNT = 100
+
+const WATCH_RATE_LIMIT: RateLimitConfig = {
+  ...CONTENT_RATE_LIMIT,
+  name: 'watch',
+}
+
+export const watch = onRequest(
+  { timeoutSeconds: WATCH_SECONDS },
+  async (req, res) => {
+    if (optionsResponse(req, res, ['GET'], PRE_AUTH_RATE_LIMIT)) {
+      return
+    }
+    const userRoles = await getUserRoles(req)
+    if (await rateLimited(req, res, userRoles, WATCH_RATE_LIMIT)) {
+      return
+    }
+    const path = req.query.p as string | undefined
+
+    if (!path) {
+      res.status(400).send('missing path')
+      return
+    }
+
+    const isCollection = path.split('/').length % 2 !== 0
+    const _collectionPath = collectionPath(path)
+    if (!COLLECTIONS[_collectionPath]) {
+      res.status(404).send('not found')
+      return
+    }
+
+    const access = getMethodAccess(
+      COLLECTIONS,
+      _collectionPath,
+      isCollection ? 'LIST' : 'GET',
+      userRoles
+    )
+    if (!access) {
+      res.status(403).send('forbidden')
+      return
+    }
+
+    const query = req.query.q
+      ? parseQuery(
+          req.query.q as string,
+          COLLECTIONS[_collectionPath].queryableFields
+        )
+      : []
+    if (query instanceof Error) {
+      res.status(400).send(query.message)
+      return
+    }
+
+    const ref = await getRef(path, isCollection)
+    if (ref instanceof Error) {
+      res.status(404).send(ref.message)
+      return
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+    res.flushHeaders()
+
+    const send = (event: string, data: unknown) => {
+      if (ended) {
+        return
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    }
+    const feed = createChangeFeed(
+      access === ALL ? undefined : (record) => access(record, userRoles)
+    )
+
+    // Snapshots are handled one at a time so events stay in order
+    let pending = Promise.resolve()
+    let synced = false
+    const handle = (
+      changes: Array<{ path: string; data?: Record<string, unknown> }>
+    ) => {
+      pending = pending
+        .then(async () => {
+          for (const { path, data } of changes) {
+            const change: Change | undefined = await feed(path, data)
+            if (change) {
+              send(change.type, change.record)
+            }
+          }
+          if (!synced) {
+            synced = true
+            send('sync', {})
+          }
+        })
+        .catch(fail)
+    }
+
+    // Comments keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => {
+      res.write(': keepalive\n\n')
+    }, HEARTBEAT_SECONDS * 1000)
+    // End cleanly (so the client reconnects) before the function times out
+    const timeout = setTimeout(() => end(), (WATCH_SECONDS - 10) * 1000)
+
+    let unsubscribe: (() => void) | undefined
+    let ended = false
+    const end = () => {
+      if (ended) {
+        return
+      }
+      ended = true
+      clearInterval(heartbeat)
+      clearTimeout(timeout)
+      unsubscribe?.()
+      res.end()
+    }
+    const fail = (error: Error) => {
+      functions.logger.error(`Error watching ${path}:`, error)
+      send('error', { message: 'watch failed' })
+      end()
+    }
+
+    if (isDocRef(ref)) {
+      unsubscribe = ref.onSnapshot(
+        (doc) => handle([{ path, data: doc.data() }]),
+        fail
+      )
+    } else {
+      let collectionQuery = ref as FirebaseFirestore.Query
+      for (const clause of query) {
+        collectionQuery = collectionQuery.where(
+          clause.field,
+          clause.operator,
+          clause.value
+        )
+      }
+      const [field, descending] = parseOrder((req.query.o as string) || '')
+      if (field) {
+        collectionQuery = collectionQuery.orderBy(
+          field,
+          descending ? 'desc' : 'asc'
+        )
+      }
+      unsubscribe = collectionQuery
+        .limit(Math.min(Number(req.query.c) || DEFAULT_COUNT, MAX_SCAN))
+        .onSnapshot(
+          (snapshot) =>
+            handle(
+              snapshot.docChanges().map(({ type, doc }) => ({
+                path: `${_collectionPath}/${doc.id}`,
+                data: type === 'removed' ? undefined : doc.data(),
+              }))
+            ),
+          fail
+        )
+    }
+
+    req.on('close', end)
+  }
+)
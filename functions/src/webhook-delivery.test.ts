@@ -0,0 +1,106 @@
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - bun:test types intermittently available
+import { test, expect } from 'bun:test'
+import http from 'http'
+import { AddressInfo } from 'net'
+import {
+  deliver,
+  retryDelaySeconds,
+  signPayload,
+  webhookEvent,
+  MAX_ATTEMPTS,
+  WebhookPayload,
+} from './webhook-delivery'
+
+interface Received {
+  signature?: string
+  body: string
+}
+
+// A local receiver that answers with each status in turn
+const receiver = async (statuses: number[]) => {
+  const received: Received[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      received.push({
+        signature: req.headers['x-webhook-signature'] as string,
+        body,
+      })
+      res.statusCode = statuses.shift() ?? 200
+      res.end(res.statusCode === 200 ? 'ok' : 'try later')
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    url: `http://localhost:${port}/hook`,
+    received,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  }
+}
+
+const payload: WebhookPayload = {
+  id: 'event-1',
+  event: 'update',
+  collection: 'post',
+  path: 'post/abc',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  record: { title: 'hello', _path: 'post/abc' },
+}
+
+test('writes map to events', () => {
+  expect(webhookEvent(undefined, { title: 'a' })).toBe('create')
+  expect(webhookEvent({ title: 'a' }, { title: 'b' })).toBe('update')
+  expect(webhookEvent({ title: 'a' }, undefined)).toBe('delete')
+  // trashing and restoring
+  expect(webhookEvent({ title: 'a' }, { title: 'a', _deleted: true })).toBe(
+    'delete'
+  )
+  expect(webhookEvent({ title: 'a', _deleted: true }, { title: 'a' })).toBe(
+    'create'
+  )
+  // purging the trash
+  expect(
+    webhookEvent({ title: 'a', _deleted: true }, undefined)
+  ).toBeUndefined()
+})
+
+test('payloads are signed', async () => {
+  const server = await receiver([200])
+  try {
+    const result = await deliver(server.url, 'secret', payload)
+    expect(result).toEqual({ ok: true, status: 200 })
+    const [{ signature, body }] = server.received
+    expect(JSON.parse(body)).toEqual(payload)
+    expect(signature).toBe(signPayload('secret', body))
+    expect(signature).not.toBe(signPayload('wrong secret', body))
+  } finally {
+    await server.close()
+  }
+})
+
+test('failures are reported', async () => {
+  const server = await receiver([503])
+  try {
+    expect(await deliver(server.url, 'secret', payload)).toEqual({
+      ok: false,
+      status: 503,
+      error: 'try later',
+    })
+  } finally {
+    await server.close()
+  }
+  const unreachable = await deliver(server.url, 'secret', payload)
+  expect(unreachable.ok).toBe(false)
+  expect(unreachable.error).toBeTruthy()
+})
+
+test('retries back off, then give up', () => {
+  const delays = []
+  for (let attempts = 1; attempts <= MAX_ATTEMPTS; attempts++) {
+    delays.push(retryDelaySeconds(attempts))
+  }
+  expect(delays).toEqual([300, 600, 1200, 2400, 4800, undefined])
+})
@@ -0,0 +1,111 @@
+/**
+ * # webhook delivery
+ *
+ * Helpers for the webhooks in `webhooks.ts`: which event (if any) a write is,
+ * signing payloads, sending them, and when to retry a failed delivery.
+ *
+ * Payloads are JSON, signed with the webhook's secret as an HMAC-SHA256 of the
+ * exact request body, sent as `X-Webhook-Signature: sha256=<hex>`. Receivers
+ * should compute the same signature over the raw body and compare.
+ */
+
+import crypto from 'crypto'
+
+type Data = Record<string, unknown>
+
+export type WebhookEvent = 'create' | 'update' | 'delete'
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['create', 'update', 'delete']
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature'
+
+// Collections that can't have webhooks (and get no triggers): writing to the
+// webhooks' own mustn't trigger deliveries, or deliveries could trigger more;
+// invites and API keys hold hashes, which mustn't leave the project; and the
+// rest are written as a side effect of almost every request
+export const UNHOOKABLE = [
+  'webhook',
+  'webhook-delivery',
+  'invite',
+  'api-key',
+  'redirect',
+  'audit-log',
+  'cache-stats',
+]
+
+// config records instances keep in sync through, which aren't configuration
+export const BOOKKEEPING_DOCS = [
+  'config/cache-generation',
+  'config/role-cache',
+  'config/blog-cache',
+]
+
+export const MAX_ATTEMPTS = 6
+const RETRY_BASE_SECONDS = 5 * 60
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+
+export interface WebhookPayload {
+  id: string // the delivery id, the same across retries
+  event: WebhookEvent
+  collection: string
+  path: string
+  timestamp: string
+  record: Data // the record as written, or as it was before being deleted
+}
+
+export interface DeliveryResult {
+  ok: boolean
+  status?: number
+  error?: string
+}
+
+const isLive = (data?: Data): data is Data =>
+  data !== undefined && data._deleted !== true
+
+// Moving a record to the trash is a delete, and restoring it is a create
+export const webhookEvent = (
+  before?: Data,
+  after?: Data
+): WebhookEvent | undefined => {
+  if (isLive(after)) {
+    return isLive(before) ? 'update' : 'create'
+  }
+  return isLive(before) ? 'delete' : undefined
+}
+
+export const signPayload = (secret: string, body: string): string =>
+  'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex')
+
+// Retry 5, 10, 20, 40… minutes after each failed attempt, until out of tries
+export const retryDelaySeconds = (attempts: number): number | undefined =>
+  attempts < MAX_ATTEMPTS
+    ? RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1)
+    : undefined
+
+export const deliver = async (
+  url: string,
+  secret: string,
+  payload: WebhookPayload
+): Promise<DeliveryResult> => {
+  const body = JSON.stringify(payload)
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: signPayload(secret, body),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    })
+    return response.ok
+      ? { ok: true, status: response.status }
+      : {
+          ok: false,
+          status: response.status,
+          error: (await response.text()).slice(0, 200),
+        }
+  } catch (e) {
+    return { ok: false, error: String(e) }
+  }
+}
@@ -0,0 +1,207 @@
+/**
+# webhooks
+
+Records in the `webhook` collection (see `collections/webhook.ts`) ask for a
+signed JSON payload to be `POST`ed to a URL whenever records in a collection
+are created, updated, or deleted:
+
+```
+{
+  collection: 'post',
+  events: ['create', 'update', 'delete'],
+  url: 'https://example.com/rebuild',
+  secret: 'shared-secret',
+}
+```
+
+Writes are picked up by Firestore triggers (one per collection in
+`COLLECTIONS`), so writes from `/doc`, `/batch`, `/trash`, `/versions`, and
+the console all count. Soft-deleting a record is a
+`delete`, and restoring it from the trash is a `create`.
+
+Each delivery is logged in `webhook-delivery`, with every attempt's status. A
+failed delivery is retried by the scheduled `retryWebhooks` function with
+exponential backoff, and marked `failed` once it runs out of attempts. See
+`webhook-delivery.ts` for the payload and how it is signed.
+*/
+
+import { onDocumentWritten } from 'firebase-functions/v2/firestore'
+import { onSchedule } from 'firebase-functions/v2/scheduler'
+import * as admin from 'firebase-admin'
+import * as functions from 'firebase-functions'
+
+import { collectionPath } from './collections/access'
+import { COLLECTIONS } from './collections'
+import {
+  deliver,
+  retryDelaySeconds,
+  webhookEvent,
+  WebhookEvent,
+  WebhookPayload,
+  BOOKKEEPING_DOCS,
+  UNHOOKABLE,
+} from './webhook-delivery'
+
+const WEBHOOK = 'webhook'
+const DELIVERY = 'webhook-delivery'
+
+export interface Webhook {
+  collection: string
+  events: WebhookEvent[]
+  url: string
+  secret: string
+  disabled?: boolean
+}
+
+interface DeliveryAttempt {
+  timestamp: string
+  status?: number
+  error?: string
+}
+
+export interface Delivery {
+  webhook: string // id of the webhook record
+  url: string
+  payload: WebhookPayload
+  status: 'pending' | 'delivered' | 'failed'
+  attempts: DeliveryAttempt[]
+  nextAttempt?: string // only pending deliveries have this
+  _created: string
+  _modified: string
+}
+
+type FirestoreDocRef = FirebaseFirestore.DocumentReference
+
+// Makes one attempt at a delivery, and records how it went
+const attempt = async (ref: FirestoreDocRef, delivery: Delivery) => {
+  const now = new Date()
+  const hook = await admin
+    .firestore()
+    .collection(WEBHOOK)
+    .doc(delivery.webhook)
+    .get()
+  const webhook = hook.data() as Webhook | undefined
+  const result = webhook
+    ? await deliver(webhook.url, webhook.secret, delivery.payload)
+    : { ok: false, error: 'webhook was deleted' }
+  const attempts = [
+    ...delivery.attempts,
+    { timestamp: now.toJSON(), status: result.status, error: result.error },
+  ]
+  const delay = webhook ? retryDelaySeconds(attempts.length) : undefined
+  if (!result.ok) {
+    functions.logger.warn(
+      `Webhook delivery ${ref.id} to ${delivery.url} failed:`,
+      result.status || result.error
+    )
+  }
+  await ref.update({
+    // undefined fields (e.g. status when the request failed) can't be stored
+    attempts: attempts.map((entry) => JSON.parse(JSON.stringify(entry))),
+    status: result.ok ? 'delivered' : delay ? 'pending' : 'failed',
+    nextAttempt:
+      !result.ok && delay
+        ? new Date(now.getTime() + delay * 1000).toJSON()
+        : admin.firestore.FieldValue.delete(),
+    _modified: now.toJSON(),
+  })
+}
+
+const onWrite = async (
+  eventId: string,
+  path: string,
+  before?: Record<string, unknown>,
+  after?: Record<string, unknown>
+) => {
+  const _collectionPath = collectionPath(path)
+  if (
+    !COLLECTIONS[_collectionPath] ||
+    UNHOOKABLE.includes(_collectionPath) ||
+    BOOKKEEPING_DOCS.includes(path)
+  ) {
+    return
+  }
+  const event = webhookEvent(before, after)
+  if (!event) {
+    return
+  }
+  const db = admin.firestore()
+  const hooks = await db
+    .collection(WEBHOOK)
+    .where('collection', '==', _collectionPath)
+    .get()
+  for (const hook of hooks.docs) {
+    const webhook = hook.data() as Webhook
+    if (webhook.disabled || !webhook.events?.includes(event)) {
+      continue
+    }
+    // triggers may run more than once per write, but deliveries shouldn't
+    const ref = db.collection(DELIVERY).doc(`${eventId}-${hook.id}`)
+    const now = Date.now()
+    const timestamp = new Date(now).toJSON()
+    const delivery: Delivery = {
+      webhook: hook.id,
+      url: webhook.url,
+      payload: {
+        id: ref.id,
+        event,
+        collection: _collectionPath,
+        path,
+        timestamp,
+        record: { ...(event === 'delete' ? before : after), _path: path },
+      },
+      status: 'pending',
+      attempts: [],
+      // in case this run fails before it records its attempt
+      nextAttempt: new Date(now + (retryDelaySeconds(1) ?? 0) * 1000).toJSON(),
+      _created: timestamp,
+      _modified: timestamp,
+    }
+    try {
+      await ref.create(delivery)
+    } catch (e) {
+      continue // already delivered (or being delivered) by an earlier run
+    }
+    await attempt(ref, delivery)
+  }
+}
+
+const trigger = (collection: string) =>
+  onDocumentWritten(
+    // e.g. post/{id0}/comment/{id1}
+    collection
+      .split('/')
+      .map((name, index) => `${name}/{id${index}}`)
+      .join('/'),
+    (event) =>
+      onWrite(
+        event.id,
+        event.document,
+        event.data?.before.data(),
+        event.data?.after.data()
+      )
+  )
+
+// One trigger per collection (deployed as e.g. webhookTriggers-post_comment),
+// so writes to other collections don't run anything. The collections are
+// configured in code, so a new one gets its trigger when it's deployed.
+export const webhookTriggers = Object.fromEntries(
+  Object.keys(COLLECTIONS)
+    .filter((collection) => !UNHOOKABLE.includes(collection))
+    .map((collection) => [
+      collection.replace(/[^a-zA-Z0-9]/g, '_'),
+      trigger(collection),
+    ])
+)
+
+export const retryWebhooks = onSchedule('every 5 minutes', async () => {
+  // only pending deliveries have nextAttempt, so this needs no composite index
+  const snapshot = await admin
+    .firestore()
+    .collection(DELIVERY)
+    .where('nextAttempt', '<=', new Date().toJSON())
+    .get()
+  for (const doc of snapshot.docs) {
+    await attempt(doc.ref, doc.data() as Delivery)
+  }
+})
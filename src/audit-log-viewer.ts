@@ -0,0 +1,264 @@
+/**
+ * Audit Log Viewer Component
+ *
+ * A floating window listing audit-log records (see functions/src/audit-log.ts),
+ * newest first, filtered by user, collection, and date range.
+ */
+
+import {
+  Component,
+  ElementCreator,
+  elements,
+  vars,
+  varDefault,
+  tosi,
+} from 'tosijs'
+import { xinFloat, xinSizer, icons, postNotification } from 'tosijs-ui'
+import * as fb from './firebase'
+
+const { h4, button, div, span, template, input, label } = elements
+
+const AUDIT_PAGE_SIZE = 50
+
+interface AuditRecord {
+  uid: string | null
+  roleId: string | null
+  method: string
+  path: string
+  collection: string
+  fields: string[]
+  status: number
+  reason?: string
+  _created: string
+  _path: string
+}
+
+const { auditLogData } = tosi({
+  auditLogData: {
+    entries: [] as AuditRecord[],
+    uid: '',
+    collection: '',
+    from: '',
+    to: '',
+    hasMore: false,
+  },
+})
+
+// Builds the /docs q parameter for the current filters
+const auditQuery = (): string => {
+  const { uid, collection, from, to } = auditLogData.xinValue
+  const clauses: string[] = []
+  if (uid.trim()) {
+    clauses.push(`uid==${JSON.stringify(uid.trim())}`)
+  }
+  if (collection.trim()) {
+    clauses.push(`collection==${JSON.stringify(collection.trim())}`)
+  }
+  if (from) {
+    clauses.push(`_created>=${JSON.stringify(new Date(from).toJSON())}`)
+  }
+  if (to) {
+    // the whole of the "to" day
+    const end = new Date(to)
+    end.setDate(end.getDate() + 1)
+    clauses.push(`_created<${JSON.stringify(end.toJSON())}`)
+  }
+  return clauses.join(',')
+}
+
+// Summarizes an entry for the list
+const describe = (entry: AuditRecord): string =>
+  entry.status === 403
+    ? `refused: ${entry.reason || 'forbidden'}`
+    : entry.fields.join(', ')
+
+class AuditLogViewer extends Component {
+  private pages?: AsyncGenerator<AuditRecord[]>
+
+  search = async () => {
+    auditLogData.entries.xinValue = []
+    this.pages = fb.docPages<AuditRecord>({
+      p: 'audit-log',
+      c: AUDIT_PAGE_SIZE,
+      o: '_created(desc)',
+      q: auditQuery(),
+    })
+    await this.loadMore()
+  }
+
+  loadMore = async () => {
+    if (!this.pages) return
+    try {
+      const { value, done } = await this.pages.next()
+      if (value) {
+        auditLogData.entries.xinValue = [
+          ...auditLogData.entries.xinValue,
+          ...value,
+        ]
+      }
+      auditLogData.hasMore.xinValue = !done && value?.length === AUDIT_PAGE_SIZE
+    } catch (e) {
+      auditLogData.hasMore.xinValue = false
+      postNotification({
+        type: 'error',
+        message: `Failed to load the audit log: ${
+          e instanceof fb.ServiceError ? e.message : e
+        }`,
+      })
+    }
+  }
+
+  content = () =>
+    xinFloat(
+      {
+        class: 'compact',
+        drag: true,
+        style: {
+          bottom: '10px',
+          right: '10px',
+          maxWidth: 'calc(100% - 20px)',
+          minHeight: '400px',
+          minWidth: '400px',
+          width: '640px',
+          overflow: 'hidden',
+        },
+      },
+      h4('Audit Log', {
+        class: 'primary',
+        style: { textAlign: 'center', padding: vars.spacing75, margin: 0 },
+      }),
+      div(
+        { class: 'filters row no-drag', style: { padding: vars.spacing50 } },
+        input({
+          type: 'search',
+          placeholder: 'user id',
+          bindValue: auditLogData.uid,
+          class: 'elastic',
+        }),
+        input({
+          type: 'search',
+          placeholder: 'collection',
+          bindValue: auditLogData.collection,
+          class: 'elastic',
+        }),
+        label(
+          span('from'),
+          input({ type: 'date', bindValue: auditLogData.from })
+        ),
+        label(span('to'), input({ type: 'date', bindValue: auditLogData.to })),
+        button(
+          { class: 'iconic', title: 'search', onClick: this.search },
+          icons.search()
+        )
+      ),
+      div(
+        {
+          class: 'column elastic no-drag',
+          style: {
+            height: '300px',
+            overflow: 'hidden scroll',
+            alignItems: 'stretch',
+            margin: `0 ${vars.spacing50}`,
+          },
+          bindList: {
+            value: auditLogData.entries,
+            idPath: '_path',
+          },
+        },
+        template(
+          div(
+            { class: 'audit-item row' },
+            span({ class: 'audit-time text-muted', bindText: '^._created' }),
+            span({ class: 'audit-method', bindText: '^.method' }),
+            span({ class: 'audit-path elastic', bindText: '^.path' }),
+            span({ class: 'audit-user text-muted', bindText: '^.uid' }),
+            span({
+              class: 'audit-fields text-muted',
+              bind: {
+                value: '^',
+                binding: {
+                  toDOM(element: HTMLElement, entry: AuditRecord) {
+                    element.textContent = describe(entry)
+                    element.classList.toggle('refused', entry.status === 403)
+                  },
+                },
+              },
+            })
+          )
+        )
+      ),
+      div(
+        { class: 'row no-drag', style: { padding: vars.spacing50 } },
+        span({ class: 'elastic' }),
+        button(
+          {
+            onClick: this.loadMore,
+            bind: {
+              value: auditLogData.hasMore,
+              binding: {
+                toDOM(element: HTMLElement, hasMore: boolean) {
+                  element.style.display = hasMore ? '' : 'none'
+                },
+              },
+            },
+          },
+          'Load more'
+        )
+      ),
+      xinSizer({ class: 'no-drag' }),
+      button(
+        {
+          title: 'close audit log',
+          class: 'iconic no-drag',
+          style: {
+            position: 'absolute',
+            top: 0,
+            right: 0,
+          },
+          onClick: this.remove.bind(this),
+        },
+        icons.x()
+      )
+    )
+
+  connectedCallback() {
+    super.connectedCallback()
+    this.search()
+  }
+}
+
+export const auditLogViewer = AuditLogViewer.elementCreator({
+  tag: 'audit-log-viewer',
+  styleSpec: {
+    ':host': {
+      _spacing: varDefault.pad('10px'),
+    },
+    ':host xin-sizer': {
+      _resizeIconFill: vars.textColor,
+    },
+    ':host xin-float': {
+      background: vars.panelBg,
+      display: 'flex',
+      flexDirection: 'column',
+    },
+    ':host .filters': {
+      gap: vars.spacing50,
+      flexWrap: 'wrap',
+    },
+    ':host .audit-item': {
+      padding: vars.spacing50,
+      gap: vars.spacing50,
+      fontSize: '0.85em',
+    },
+    ':host .audit-method': {
+      fontWeight: 500,
+    },
+    ':host .text-muted': {
+      opacity: 0.7,
+    },
+    ':host .refused': {
+      color: vars.errorColor,
+      opacity: 1,
+    },
+  },
+}) as ElementCreator<AuditLogViewer>
@@ -24,11 +24,18 @@ import {
   TabSelector,
   makeSorter,
   xinSegmented,
+  TosiDialog,
 } from 'tosijs-ui'
 
 import * as tosijs from 'tosijs'
 import * as tosijsui from 'tosijs-ui'
-import { service, ServiceRequestType } from './firebase'
+import {
+  service,
+  ServiceRequestType,
+  ServiceError,
+  etagFor,
+  docPages,
+} from './firebase'
 import { getPrefetchedDoc } from './prefetched'
 import { app } from './app'
 import { randomID } from './random-id'
@@ -115,6 +122,23 @@ function featuredImage(content: string): string[] {
   )
 }
 
+const INDEX_FIELDS = 'title,date,summary,keywords,path'
+const INDEX_PAGE_SIZE = 30
+// how close (in px) to the bottom of the index scrolling loads more of it
+const INDEX_SCROLL_MARGIN = 200
+
+// authors and editors see drafts (which have no date) in the index
+const indexOrder = (): string => {
+  const roles = app.user.roles.xinValue || []
+  return roles.includes('author') || roles.includes('editor')
+    ? ''
+    : 'date(desc)'
+}
+
+// remaining pages of the index, for infinite scrolling
+let indexPages: AsyncGenerator<BlogRef[]> | undefined
+let loadingIndexPage = false
+
 export const { blog } = tosi({
   blog: {
     title: 'inconsequence',
@@ -122,6 +146,7 @@ export const { blog } = tosi({
     indexVisible: 'published',
     filterText: '',
     filtered: [] as BlogRef[],
+    indexComplete: false,
     visiblePosts: 6,
     currentPost: { ...emptyPost },
     editorPost: { ...emptyPost },
@@ -163,16 +188,44 @@ export const { blog } = tosi({
       if (!skipPrefetched && recentPosts && recentPosts.length >= c) {
         return recentPosts
       }
-      const roles = app.user.roles.xinValue || []
-      const o =
-        roles.includes('author') || roles.includes('editor') ? '' : 'date(desc)'
       return await service.docs.get({
         p: 'post',
-        f: 'title,date,summary,keywords,path',
-        o,
+        f: INDEX_FIELDS,
+        o: indexOrder(),
         c,
       })
     },
+    // adds the next page of posts not already in the index
+    async loadMoreIndex() {
+      if (loadingIndexPage || blog.indexComplete.valueOf()) {
+        return
+      }
+      loadingIndexPage = true
+      try {
+        if (!indexPages) {
+          indexPages = docPages<BlogRef>({
+            p: 'post',
+            f: INDEX_FIELDS,
+            o: indexOrder(),
+            c: INDEX_PAGE_SIZE,
+          })
+        }
+        const known = new Set(blog.index.xinValue.map((entry) => entry.path))
+        let added: BlogRef[] = []
+        while (added.length === 0) {
+          const { value: page, done } = await indexPages.next()
+          if (done) {
+            blog.indexComplete.xinValue = true
+            break
+          }
+          added = page.filter((item) => !known.has(item.path))
+        }
+        blog.index.xinValue = [...blog.index.xinValue, ...added]
+        blog.filterIndex()
+      } finally {
+        loadingIndexPage = false
+      }
+    },
     async restoreIndexCache() {
       const cached = JSON.parse(
         localStorage.getItem('blog-index-cache') || '[]'
@@ -677,6 +730,7 @@ export class XinBlogSearch extends Component {
       JSON.stringify(blog.index.valueOf())
     )
     blog.filterIndex()
+    blog.indexComplete.xinValue = true
     closeNotification()
     ;(this.parts.searchField as HTMLInputElement).placeholder =
       'search all posts'
@@ -757,6 +811,15 @@ export class XinBlogSearch extends Component {
               value: blog.filtered,
               idPath: '_path',
             },
+            onScroll(event: Event) {
+              const list = event.target as HTMLElement
+              if (
+                list.scrollTop + list.clientHeight >
+                list.scrollHeight - INDEX_SCROLL_MARGIN
+              ) {
+                blog.loadMoreIndex()
+              }
+            },
           },
           template(
             a({
@@ -834,19 +897,58 @@ export class XinPostEditor extends Component<PostEditorParts> {
       JSON.stringify(blog.editorPost.valueOf())
     )
     const data = xinValue(blog.editorPost)
-    const result = await service.doc[method]({ p: data._path, data })
+    // only save if nobody else has changed the post since we loaded it
+    const ifMatch = method === 'put' ? etagFor(data) : undefined
+    const result = await service.doc[method](
+      { p: data._path, data },
+      ifMatch ? { headers: { 'If-Match': ifMatch } } : undefined
+    )
     closeNotification()
-    if (result instanceof Error) {
+    if (result instanceof ServiceError && result.status === 412) {
+      await this.resolveConflict(String(data._path))
+    } else if (result instanceof Error) {
       postNotification({
         message: result.toString(),
         type: 'error',
       })
     } else {
-      blog.loadPost(data._path!.xinValue)
+      const saved = await service.doc.get({ p: data._path })
+      if (!(saved instanceof Error)) {
+        blog.currentPost = saved
+        // @ts-ignore-error
+        blog.editorPost._modified = saved._modified
+      }
       localStorage.removeItem('xin-blog-editor-post')
     }
   }
 
+  resolveConflict = async (p: string) => {
+    const overwrite = await TosiDialog.confirm(
+      'Someone else changed this post since you opened it. Replace their changes with yours?',
+      'Post Changed'
+    )
+    if (!overwrite) {
+      postNotification({
+        message:
+          'Your changes were not saved. They are kept as a draft you can reopen from the blog menu.',
+        type: 'warn',
+      })
+      return
+    }
+    const latest = await service.doc.get({ p })
+    if (latest instanceof Error) {
+      postNotification({
+        message: latest.toString(),
+        type: 'error',
+      })
+      return
+    }
+    // save against the version we just looked at, so a third edit still conflicts
+    // @ts-ignore-error
+    blog.editorPost._modified = latest._modified
+    await this.savePost()
+  }
+
   unpublish = () => {
     blog.editorPost.date!.xinValue = ''
   }
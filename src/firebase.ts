@@ -50,6 +50,7 @@ import {
 } from 'firebase/analytics'
 import { config, PRODUCTION_BASE } from './firebase-config'
 import { randomID } from './random-id'
+import { getImageDimensions } from './dimensions'
 import { postNotification, makeSorter } from 'tosijs-ui'
 
 const defaultSort = makeSorter((r: any) => [r._created], false)
@@ -69,6 +70,22 @@ let firebaseUser: any | undefined
 
 export const getFirebaseUser = () => firebaseUser
 
+// Admins can preview the site with fewer roles; the roles (or role record id)
+// are sent with every request as X-View-As (see getUserRoles) and last for
+// the session
+const VIEW_AS_KEY = 'view-as'
+
+export const getViewAs = (): string =>
+  globalThis.sessionStorage?.getItem(VIEW_AS_KEY) || ''
+
+export const setViewAs = (viewAs = ''): void => {
+  if (viewAs) {
+    globalThis.sessionStorage.setItem(VIEW_AS_KEY, viewAs)
+  } else {
+    globalThis.sessionStorage.removeItem(VIEW_AS_KEY)
+  }
+}
+
 type Ref = {
   path: string
 }
@@ -443,42 +460,36 @@ export function listenRecords(
   return unsubscribe
 }
 
-export const syncRecords = async (
+// Keeps `target` in sync with the records at `path` that the user may see,
+// via /watch. Returns a function that stops syncing.
+export const syncRecords = (
   target: any[],
-  collection: string,
-  condition?: FirestoreQuery,
-  props?: string[],
-  sorter = defaultSort,
-  maxRecords = DEFAULT_LIMIT
-) => {
-  if (props !== undefined) {
-    const existing = await service.list.post({
-      collection,
-      props,
-      limit: maxRecords,
-    })
-    target.splice(0)
-    target.splice(0, 0, ...existing.records)
-    if (condition === undefined) {
-      condition = where('_created', '>', existing._created)
-    }
-  }
-  const unsubscribe = listenRecords(
-    collection,
+  path: string,
+  query: Omit<DocsQuery, 'p'> = {},
+  sorter = defaultSort
+): (() => void) => {
+  // paths sent since (re)connecting; anything else in target is gone
+  const current = new Set<string>()
+  return watch(
+    path,
     (type, record: any) => {
-      const index = target.findIndex((existing) => existing._id === record._id)
+      const index = target.findIndex(
+        (existing) => existing._path === record._path
+      )
       switch (type) {
+        case 'connected':
+          current.clear()
+          break
         case 'added':
         case 'modified':
+          current.add(record._path)
           if (index > -1) {
-            {
-              const existing = target[index]
-              if (
-                existing._modified === undefined ||
-                record._modified > existing._modified
-              ) {
-                target[index] = record
-              }
+            const existing = target[index]
+            if (
+              existing._modified === undefined ||
+              record._modified >= existing._modified
+            ) {
+              target[index] = record
             }
           } else {
             target.unshift(record)
@@ -489,16 +500,18 @@ export const syncRecords = async (
             target.splice(index, 1)
           }
           break
+        case 'sync':
+          for (let i = target.length - 1; i >= 0; i--) {
+            if (!current.has(target[i]._path)) {
+              target.splice(i, 1)
+            }
+          }
+          break
       }
       target.sort(sorter)
     },
-    condition,
-    maxRecords
+    query
   )
-  return () => {
-    target = [] as any[]
-    unsubscribe()
-  }
 }
 
 export async function getRecord(
@@ -708,6 +721,20 @@ const deepClone = (obj: any): any => {
   return JSON.parse(JSON.stringify(obj))
 }
 
+// Returned (not thrown) by service requests that fail
+export class ServiceError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.status = status
+  }
+}
+
+// The ETag /doc uses for a record, to send back as If-Match when saving it
+export const etagFor = (record: any): string | undefined =>
+  record?._modified ? `"${record._modified}"` : undefined
+
 export type ServiceRequest<T = any> = (
   data?: any,
   options?: RequestInit
@@ -739,14 +766,22 @@ export const service = new Proxy(
             return async (data?: any, options?: RequestInit) => {
               const description = `${method} ${url} ${++timerId}`
               if (perf) console.time(description)
+              const headers = options?.headers
               options = Object.assign(
                 deepClone(FETCH_DEFAULTS),
                 options
               ) as Object
+              // merge rather than replace the default headers
+              options.headers = {
+                ...FETCH_DEFAULTS.headers,
+                ...(headers as Record<string, string>),
+              }
               if (firebaseUser) {
-                // @ts-expect-error typescript is wrong
                 options.headers['Authorization'] =
                   'Bearer ' + (await firebaseUser.getIdToken(true))
+                if (getViewAs()) {
+                  options.headers['X-View-As'] = getViewAs()
+                }
               }
               if (data != null) {
                 if (method.match(/GET|DELETE/)) {
@@ -775,7 +810,7 @@ export const service = new Proxy(
                   options,
                   data,
                 })
-                return new Error(message)
+                return new ServiceError(message, response.status)
               }
               const payload =
                 response!.headers.get('Content-Type') ===
@@ -794,6 +829,120 @@ export const service = new Proxy(
   }
 ) as ServiceProxy
 
+// Parameters for /docs (see functions/src/docs.ts)
+export interface DocsQuery {
+  p: string
+  c?: number
+  f?: string
+  o?: string
+  q?: string
+  mine?: boolean
+}
+
+export interface DocsPage<T = any> {
+  records: T[]
+  next?: string
+  prev?: string
+}
+
+// Iterates through the results of a /docs query a page at a time
+export async function* docPages<T = any>(
+  query: DocsQuery
+): AsyncGenerator<T[]> {
+  let cursor: string | undefined = 'first'
+  while (cursor) {
+    const page: DocsPage<T> | ServiceError = await service.docs.get({
+      ...query,
+      cursor,
+    })
+    if (page instanceof ServiceError) {
+      throw page
+    }
+    yield page.records
+    cursor = page.next
+  }
+}
+
+export type WatchEvent = ChangeType | 'sync' | 'error' | 'connected'
+export type WatchHandler = (type: WatchEvent, data: any) => void
+
+const WATCH_RETRY_MS = 1000
+const WATCH_MAX_RETRY_MS = 60 * 1000
+
+// Streams changes from /watch (see functions/src/watch.ts), reconnecting
+// whenever the stream ends, until the returned function is called.
+// `connected` is reported each time the stream (re)opens.
+export function watch(
+  path: string,
+  callback: WatchHandler,
+  query: Omit<DocsQuery, 'p'> = {}
+): () => void {
+  const controller = new AbortController()
+
+  const connect = async () => {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' }
+    if (firebaseUser) {
+      headers['Authorization'] = 'Bearer ' + (await firebaseUser.getIdToken())
+      if (getViewAs()) {
+        headers['X-View-As'] = getViewAs()
+      }
+    }
+    const params = new URLSearchParams({ ...query, p: path } as any)
+    const response = await fetch(`${baseServiceUrl}watch?${params}`, {
+      headers,
+      signal: controller.signal,
+    })
+    if (!response.ok || !response.body) {
+      throw new ServiceError(await response.text(), response.status)
+    }
+    callback('connected', {})
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .getReader()
+    let buffer = ''
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) {
+        return
+      }
+      buffer += value
+      const messages = buffer.split('\n\n')
+      buffer = messages.pop() || ''
+      for (const message of messages) {
+        const event = message.match(/^event: (.*)$/m)?.[1]
+        const data = message.match(/^data: (.*)$/m)?.[1]
+        if (event && data) {
+          callback(event as WatchEvent, JSON.parse(data))
+        }
+      }
+    }
+  }
+
+  const run = async () => {
+    let delay = WATCH_RETRY_MS
+    while (!controller.signal.aborted) {
+      try {
+        await connect()
+        delay = WATCH_RETRY_MS
+      } catch (e) {
+        if (controller.signal.aborted) {
+          return
+        }
+        if (e instanceof ServiceError && e.status < 500) {
+          // retrying won't help (bad path, forbidden, etc.)
+          console.error(`watching ${path} failed`, e)
+          return
+        }
+        delay = Math.min(delay * 2, WATCH_MAX_RETRY_MS)
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+  run()
+
+  return () => controller.abort()
+}
+
 // storage
 
 export const pathToUrl = async (path: string): Promise<string | undefined> => {
@@ -887,6 +1036,26 @@ const imageToWebP = (
   })
 }
 
+// Images are stored with their size, which prefetch uses for og:image:width
+// and og:image:height
+const imageSizeMetadata = async (
+  blob: Blob
+): Promise<Record<string, string> | undefined> => {
+  if (!blob.type.startsWith('image/')) {
+    return undefined
+  }
+  const url = URL.createObjectURL(blob)
+  try {
+    const { width, height } = await getImageDimensions(url)
+    return { width: String(width), height: String(height) }
+  } catch (e) {
+    console.warn('Could not get image size:', e)
+    return undefined
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
 export const uploadFile = async (
   file: File,
   desiredPath: string,
@@ -897,10 +1066,10 @@ export const uploadFile = async (
     message: `Uploading "${file.name}" to "${desiredPath}"`,
   })
   const ref = storageRef(getStorage(), desiredPath)
-  const { metadata } = await uploadBytes(
-    ref,
-    convertToWebP ? await imageToWebP(file) : file
-  )
+  const blob = convertToWebP ? await imageToWebP(file) : file
+  const { metadata } = await uploadBytes(ref, blob, {
+    customMetadata: await imageSizeMetadata(blob),
+  })
   closeNotification()
   return metadata.fullPath
 }
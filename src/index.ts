@@ -8,6 +8,8 @@ import { theme } from './style'
 import { app } from './app'
 import * as fb from './firebase'
 import { roleManager } from './role-manager'
+import { auditLogViewer } from './audit-log-viewer'
+import { handleInvite } from './invite'
 
 // Helper to check if user has admin+ role
 const isAdmin = (): boolean => {
@@ -21,6 +23,16 @@ const isAdmin = (): boolean => {
 
 const { a, h2, h3, img, button, div, header, main, footer } = elements
 
+// The roles an admin can preview the site as (from the "View as…" menu)
+const VIEW_AS_ROLES = ['admin', 'editor', 'author', 'public']
+
+// Switching roles reloads, so everything on the page is fetched again as the
+// chosen role
+const viewAs = (roles = '') => {
+  fb.setViewAs(roles)
+  window.location.reload()
+}
+
 declare global {
   interface Window {
     app: typeof app
@@ -37,12 +49,20 @@ window.tosi = tosi
 
 bindings.loading = {
   toDOM(element, truthy) {
+    // (while it holds server-rendered content, that's worth showing)
     const isLoading =
-      !(typeof truthy === 'object' && truthy.valueOf()) && !truthy
+      !(typeof truthy === 'object' && truthy.valueOf()) &&
+      !truthy &&
+      !element.querySelector('[data-prerendered]')
     element.classList.toggle('loading', isLoading)
   },
 }
 
+// The server renders the page into main#prerendered for crawlers and first
+// paint; it moves into the xin-page, which replaces it once the page renders
+const prerendered = document.getElementById('prerendered')
+prerendered?.remove()
+
 // comment
 document.body.append(
   main(
@@ -136,6 +156,42 @@ document.body.append(
                           }
                         },
                       },
+                      {
+                        icon: 'list',
+                        caption: 'Audit Log',
+                        action() {
+                          if (!document.querySelector('audit-log-viewer')) {
+                            document.body.append(auditLogViewer())
+                          }
+                        },
+                      },
+                    ]
+                  : []),
+                // View as a less privileged role (kept while viewing as one)
+                ...(isAdmin() || fb.getViewAs()
+                  ? [
+                      null,
+                      {
+                        icon: 'eye',
+                        caption: 'View as…',
+                        menuItems: [
+                          {
+                            caption: 'Myself',
+                            checked: () => !fb.getViewAs(),
+                            action() {
+                              viewAs()
+                            },
+                          },
+                          null,
+                          ...VIEW_AS_ROLES.map((role) => ({
+                            caption: role[0].toUpperCase() + role.slice(1),
+                            checked: () => fb.getViewAs() === role,
+                            action() {
+                              viewAs(role)
+                            },
+                          })),
+                        ],
+                      },
                     ]
                   : []),
                 // Sign in/out
@@ -166,9 +222,12 @@ document.body.append(
         icons.chevronDown()
       )
     ),
-    xinPage({
-      page: app.currentPage,
-    }),
+    xinPage(
+      {
+        page: app.currentPage,
+      },
+      ...Array.from(prerendered?.children || [])
+    ),
     footer(
       {
         class: 'responsive-row padded center-justify',
@@ -197,3 +256,5 @@ document.body.append(
     )
   )
 )
+
+handleInvite()
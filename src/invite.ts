@@ -0,0 +1,78 @@
+/**
+ * Invitation Links
+ *
+ * Opening /invite/<token> (see functions/src/invite.ts) shows what the
+ * invitation grants, has the visitor sign in if they haven't, and accepts it.
+ */
+
+import { TosiDialog, postNotification } from 'tosijs-ui'
+import { app } from './app'
+import * as fb from './firebase'
+
+const INVITE_PATH = /^\/invite\/([\w-]+)\/?$/
+
+interface InviteSummary {
+  name: string
+  roles: string[]
+  expires: string
+  status: 'open' | 'accepted' | 'revoked' | 'expired'
+}
+
+const accept = async (token: string) => {
+  const result = await fb.service[`invite/${token}`].post()
+  if (result instanceof fb.ServiceError) {
+    postNotification({
+      type: 'error',
+      message: `Failed to accept the invitation: ${result.message}`,
+    })
+    return
+  }
+  window.history.replaceState(null, '', '/')
+  app.user = await fb.service.user.get()
+  postNotification({
+    type: 'success',
+    message: `Welcome! You now have the ${result.roles.join(', ')} role`,
+    duration: 5,
+  })
+}
+
+export const handleInvite = async () => {
+  const [, token] = window.location.pathname.match(INVITE_PATH) || []
+  if (!token) {
+    return
+  }
+  const invite: InviteSummary | fb.ServiceError = await fb.service[
+    `invite/${token}`
+  ].get()
+  if (invite instanceof fb.ServiceError) {
+    postNotification({
+      type: 'error',
+      message: 'This invitation link is not valid',
+    })
+    return
+  }
+  if (invite.status !== 'open') {
+    postNotification({
+      type: 'warn',
+      message: `This invitation has been ${invite.status}`,
+    })
+    return
+  }
+
+  await fb.auth.authStateReady()
+  const signedIn = Boolean(fb.getFirebaseUser())
+  const confirmed = await TosiDialog.confirm(
+    `${invite.name}, you've been invited to join as ${invite.roles.join(
+      ', '
+    )}. ${signedIn ? 'Accept?' : 'Sign in to accept.'}`,
+    'Invitation'
+  )
+  if (!confirmed) {
+    return
+  }
+  if (signedIn) {
+    await accept(token)
+  } else {
+    fb.signinWithGoogle(() => accept(token))
+  }
+}
@@ -23,9 +23,15 @@ export class XinPage extends WebComponent {
 
   render() {
     super.render()
+
+    const { source, path } = this.page
+    // Markup the server rendered (see functions/src/ssr.ts) stays until there's
+    // an actual page to replace it with
+    if (!path && this.querySelector(':scope > [data-prerendered]')) {
+      return
+    }
     this.textContent = ''
 
-    const { source } = this.page
     if (!source) {
       return
     }
@@ -24,6 +24,7 @@ import {
 } from 'tosijs-ui'
 import { SchemaEditor, schemaEditor } from './schema-editor'
 import { RoleSchema, Role, emptyRole } from '../functions/shared/role'
+import { Invite, inviteStatus } from '../functions/shared/invite'
 import * as fb from './firebase'
 
 const { h4, button, div, span, template, input } = elements
@@ -50,9 +51,18 @@ const { roleManagerData } = tosi({
     isEditing: false,
     isExistingRole: false,
     editingTitle: 'New Role',
+    invites: [] as Invite[],
   },
 })
 
+// Open invitations first, then the most recent
+const sortInvites = (invites: Invite[]): Invite[] =>
+  [...invites].sort(
+    (a, b) =>
+      Number(inviteStatus(b) === 'open') - Number(inviteStatus(a) === 'open') ||
+      (b._created || '').localeCompare(a._created || '')
+  )
+
 // Filter function for role list
 const filterRoles = (roles: Role[], needle: string): Role[] => {
   needle = needle.trim().toLocaleLowerCase()
@@ -94,6 +104,75 @@ class RoleManager extends Component<RoleManagerParts> {
     }
   }
 
+  loadInvites = async () => {
+    const invites = await fb.service.docs.get({ p: 'invite' })
+    if (invites instanceof fb.ServiceError) {
+      postNotification({
+        type: 'error',
+        message: `Failed to load invitations: ${invites.message}`,
+      })
+      return
+    }
+    roleManagerData.invites.xinValue = sortInvites(invites || [])
+  }
+
+  // Invitations are links that grant roles to whoever accepts them (see
+  // functions/src/invite.ts)
+  createInvite = async () => {
+    const name = await TosiDialog.prompt('Who is the invitation for?', 'Invite')
+    if (!name) return
+    const roles = await TosiDialog.prompt(
+      'Roles to grant (comma-separated)',
+      'Invite',
+      'author'
+    )
+    if (roles === null) return
+
+    const result = await fb.service.invite.post({
+      name,
+      roles: roles
+        .split(',')
+        .map((role) => role.trim())
+        .filter(Boolean),
+    })
+    if (result instanceof fb.ServiceError) {
+      postNotification({
+        type: 'error',
+        message: `Failed to create invitation: ${result.message}`,
+      })
+      return
+    }
+    const link = `${window.location.origin}${result.link}`
+    await navigator.clipboard?.writeText(link).catch(() => undefined)
+    await TosiDialog.prompt(
+      `Send ${name} this link (it has been copied, and can only be used once)`,
+      'Invitation Link',
+      link
+    )
+    await this.loadInvites()
+  }
+
+  revokeInvite = async (event: Event) => {
+    const invite = getListItem(event.target as HTMLElement) as Invite
+    // records from /docs carry their path, not their id
+    const id = invite?._path?.split('/').pop()
+    if (!id || inviteStatus(invite) !== 'open') return
+    const confirmed = await TosiDialog.confirm(
+      `Revoke the invitation for "${invite.name}"?`
+    )
+    if (!confirmed) return
+
+    const result = await fb.service.invite.delete({ id })
+    if (result instanceof fb.ServiceError) {
+      postNotification({
+        type: 'error',
+        message: `Failed to revoke invitation: ${result.message}`,
+      })
+      return
+    }
+    await this.loadInvites()
+  }
+
   selectRole = (role: Role) => {
     roleManagerData.selectedRole.xinValue = { ...role }
     roleManagerData.editingTitle.xinValue = `Edit: ${role.name}`
@@ -264,6 +343,16 @@ class RoleManager extends Component<RoleManagerParts> {
             },
             icons.plus(),
             span('New')
+          ),
+          button(
+            {
+              class: 'row',
+              title: 'invite someone by link',
+              style: { marginLeft: vars.spacing50 },
+              onClick: this.createInvite,
+            },
+            icons.mail(),
+            span('Invite')
           )
         ),
         div(
@@ -271,7 +360,7 @@ class RoleManager extends Component<RoleManagerParts> {
             part: 'roleList',
             class: 'column elastic no-drag',
             style: {
-              height: '300px',
+              height: '220px',
               overflow: 'hidden scroll',
               alignItems: 'stretch',
               margin: `0 ${vars.spacing50}`,
@@ -295,6 +384,57 @@ class RoleManager extends Component<RoleManagerParts> {
               })
             )
           )
+        ),
+        h4('Invitations', { class: 'invites-heading' }),
+        div(
+          {
+            class: 'column no-drag',
+            style: {
+              maxHeight: '150px',
+              overflow: 'hidden scroll',
+              alignItems: 'stretch',
+              margin: `0 ${vars.spacing50}`,
+            },
+            bindList: {
+              value: roleManagerData.invites,
+              idPath: '_id',
+            },
+          },
+          template(
+            div(
+              { class: 'invite-item row' },
+              span({ class: 'role-name elastic', bindText: '^.name' }),
+              span({ class: 'role-roles text-muted', bindText: '^.roles' }),
+              span({
+                class: 'invite-status text-muted',
+                bind: {
+                  value: '^',
+                  binding: {
+                    toDOM(element: HTMLElement, invite: Invite) {
+                      element.textContent = inviteStatus(invite)
+                    },
+                  },
+                },
+              }),
+              button(
+                {
+                  class: 'iconic',
+                  title: 'revoke invitation',
+                  onClick: this.revokeInvite,
+                  bind: {
+                    value: '^',
+                    binding: {
+                      toDOM(element: HTMLElement, invite: Invite) {
+                        element.style.visibility =
+                          inviteStatus(invite) === 'open' ? '' : 'hidden'
+                      },
+                    },
+                  },
+                },
+                icons.x()
+              )
+            )
+          )
         )
       ),
 
@@ -399,6 +539,7 @@ class RoleManager extends Component<RoleManagerParts> {
   connectedCallback() {
     super.connectedCallback()
     this.loadRoles()
+    this.loadInvites()
   }
 }
 
@@ -429,6 +570,15 @@ export const roleManager = RoleManager.elementCreator({
     ':host .role-item:hover': {
       background: vars.hoverBg,
     },
+    ':host .invite-item': {
+      padding: `0 ${vars.spacing50}`,
+      gap: vars.spacing50,
+      alignItems: 'center',
+    },
+    ':host .invites-heading': {
+      margin: 0,
+      padding: vars.spacing50,
+    },
     ':host .role-name': {
       fontWeight: 500,
     },